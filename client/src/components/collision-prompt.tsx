@@ -0,0 +1,76 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { FileWarning } from "lucide-react";
+import type { CollisionChoice } from "@/lib/filename-policy";
+
+interface CollisionPromptProps {
+  // Path of the incoming file whose name is taken; null keeps the prompt closed
+  path: string | null;
+  onAnswer: (choice: CollisionChoice, applyToAll: boolean) => void;
+}
+
+export function CollisionPrompt({ path, onAnswer }: CollisionPromptProps) {
+  const [applyToAll, setApplyToAll] = useState(false);
+
+  // Every transfer starts out asking file by file
+  useEffect(() => {
+    if (path === null) setApplyToAll(false);
+  }, [path]);
+
+  const answer = (choice: CollisionChoice) => onAnswer(choice, applyToAll);
+
+  return (
+    // Dismissing the prompt leaves the existing file alone
+    <Dialog open={path !== null} onOpenChange={(isOpen) => !isOpen && answer('skip')}>
+      <DialogContent className="glass">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <FileWarning className="mr-2 h-4 w-4 text-amber-500" />
+            File Already Exists
+          </DialogTitle>
+          <DialogDescription>
+            The save folder already has <span className="font-medium break-all">{path}</span>. What should happen to the incoming file?
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center space-x-2 py-2">
+          <Checkbox
+            id="collision-apply-to-all"
+            checked={applyToAll}
+            onCheckedChange={(checked) => setApplyToAll(checked === true)}
+            data-testid="checkbox-collision-apply-all"
+          />
+          <Label htmlFor="collision-apply-to-all" className="text-sm text-gray-600 dark:text-gray-300">
+            Do this for the remaining files
+          </Label>
+        </div>
+
+        <DialogFooter>
+          <Button variant="secondary" onClick={() => answer('skip')} data-testid="button-collision-skip">
+            Skip
+          </Button>
+          <Button variant="secondary" onClick={() => answer('overwrite')} data-testid="button-collision-overwrite">
+            Replace
+          </Button>
+          <Button
+            onClick={() => answer('rename')}
+            className="bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700"
+            data-testid="button-collision-rename"
+          >
+            Keep Both
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
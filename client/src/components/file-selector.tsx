@@ -1,16 +1,28 @@
 import { useRef } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { File, Folder, Upload, QrCode, X } from "lucide-react";
-import { formatFileSize } from "@/lib/utils";
+import { File, Folder, Upload, QrCode, Users, Send } from "lucide-react";
+import { FileTree } from "@/components/file-tree";
+import { collectDroppedFiles } from "@/lib/dropped-files";
 
 interface FileSelectorProps {
   selectedFiles: File[];
   onFilesSelected: (files: File[]) => void;
-  onCreatePairingCode: () => void;
+  onCreatePairingCode?: () => void;
+  onCreateRoom?: () => void;
+  // Inside a connected session files are sent directly instead of pairing first
+  onSend?: () => void;
+  title?: string;
 }
 
-export function FileSelector({ selectedFiles, onFilesSelected, onCreatePairingCode }: FileSelectorProps) {
+export function FileSelector({
+  selectedFiles,
+  onFilesSelected,
+  onCreatePairingCode,
+  onCreateRoom,
+  onSend,
+  title = "Select Files to Share"
+}: FileSelectorProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileSelect = (allowDirectories = false) => {
@@ -31,11 +43,15 @@ export function FileSelector({ selectedFiles, onFilesSelected, onCreatePairingCo
     event.preventDefault();
     event.stopPropagation();
     
-    const files = Array.from(event.dataTransfer.files);
-    onFilesSelected([...selectedFiles, ...files]);
-    
     const dropZone = event.currentTarget;
     dropZone.classList.remove('drag-over');
+
+    // Dropped folders are walked recursively, keeping their structure
+    collectDroppedFiles(event.dataTransfer)
+      .then(files => onFilesSelected([...selectedFiles, ...files]))
+      .catch(error => {
+        console.error('Failed to read dropped items:', error);
+      });
   };
 
   const handleDragOver = (event: React.DragEvent) => {
@@ -52,26 +68,17 @@ export function FileSelector({ selectedFiles, onFilesSelected, onCreatePairingCo
     dropZone.classList.remove('drag-over');
   };
 
-  const removeFile = (index: number) => {
-    const newFiles = selectedFiles.filter((_, i) => i !== index);
+  const removeFiles = (indices: number[]) => {
+    const newFiles = selectedFiles.filter((_, i) => !indices.includes(i));
     onFilesSelected(newFiles);
   };
 
-  const getFileIcon = (file: File) => {
-    if (file.type.startsWith('image/')) return '🖼️';
-    if (file.type.startsWith('video/')) return '🎥';
-    if (file.type.startsWith('audio/')) return '🎵';
-    if (file.type.includes('pdf')) return '📄';
-    if (file.type.includes('zip') || file.type.includes('rar')) return '📦';
-    return '📄';
-  };
-
   return (
     <Card className="glass">
       <CardContent className="p-8">
         <h3 className="text-2xl font-semibold mb-6 text-gray-800 dark:text-white flex items-center">
           <Folder className="mr-3 text-emerald-500" />
-          Select Files to Share
+          {title}
         </h3>
         
         {/* Hidden file input */}
@@ -113,7 +120,7 @@ export function FileSelector({ selectedFiles, onFilesSelected, onCreatePairingCo
           data-testid="file-drop-zone"
         >
           <Upload className="text-4xl text-gray-400 mx-auto mb-4" />
-          <p className="text-lg font-medium text-gray-600 dark:text-gray-300 mb-2">Drag and drop files here</p>
+          <p className="text-lg font-medium text-gray-600 dark:text-gray-300 mb-2">Drag and drop files or folders here</p>
           <p className="text-sm text-gray-500 dark:text-gray-400">or use the buttons above</p>
         </div>
         
@@ -121,47 +128,47 @@ export function FileSelector({ selectedFiles, onFilesSelected, onCreatePairingCo
         {selectedFiles.length > 0 && (
           <div className="space-y-3 mb-6">
             <h4 className="font-semibold text-gray-800 dark:text-white">Selected Files ({selectedFiles.length})</h4>
-            <div className="max-h-64 overflow-y-auto space-y-2">
-              {selectedFiles.map((file, index) => (
-                <div
-                  key={index}
-                  className="flex items-center justify-between p-4 bg-white/30 dark:bg-gray-800/30 rounded-lg"
-                  data-testid={`file-item-${index}`}
-                >
-                  <div className="flex items-center">
-                    <span className="text-2xl mr-3">{getFileIcon(file)}</span>
-                    <div>
-                      <span className="font-medium text-gray-800 dark:text-white">{file.name}</span>
-                      <div className="text-sm text-gray-500 dark:text-gray-400">
-                        {formatFileSize(file.size)}
-                      </div>
-                    </div>
-                  </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => removeFile(index)}
-                    className="text-red-500 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
-                    data-testid={`button-remove-file-${index}`}
-                  >
-                    <X className="h-4 w-4" />
-                  </Button>
-                </div>
-              ))}
-            </div>
+            <FileTree files={selectedFiles} onRemove={removeFiles} />
           </div>
         )}
         
+        {onSend && (
+          <Button
+            onClick={onSend}
+            disabled={selectedFiles.length === 0}
+            className="w-full bg-gradient-to-r from-emerald-500 to-purple-500 hover:from-emerald-600 hover:to-purple-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            data-testid="button-send-files"
+          >
+            <Send className="mr-3 h-4 w-4" />
+            Send Files
+          </Button>
+        )}
+
         {/* Create Pairing Code Button */}
-        <Button
-          onClick={onCreatePairingCode}
-          disabled={selectedFiles.length === 0}
-          className="w-full bg-gradient-to-r from-emerald-500 to-purple-500 hover:from-emerald-600 hover:to-purple-600 disabled:opacity-50 disabled:cursor-not-allowed"
-          data-testid="button-create-pairing-code"
-        >
-          <QrCode className="mr-3 h-4 w-4" />
-          Create Pairing Code
-        </Button>
+        {onCreatePairingCode && (
+          <Button
+            onClick={onCreatePairingCode}
+            disabled={selectedFiles.length === 0}
+            className="w-full bg-gradient-to-r from-emerald-500 to-purple-500 hover:from-emerald-600 hover:to-purple-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            data-testid="button-create-pairing-code"
+          >
+            <QrCode className="mr-3 h-4 w-4" />
+            Create Pairing Code
+          </Button>
+        )}
+
+        {onCreateRoom && (
+          <Button
+            variant="ghost"
+            onClick={onCreateRoom}
+            disabled={selectedFiles.length === 0}
+            className="w-full mt-3 text-purple-600 dark:text-purple-400 disabled:opacity-50 disabled:cursor-not-allowed"
+            data-testid="button-create-room"
+          >
+            <Users className="mr-3 h-4 w-4" />
+            Same network? Create a room code instead
+          </Button>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight, Folder, X } from "lucide-react";
+import { formatFileSize } from "@/lib/utils";
+import { buildFileTree, collectFileIndices, type FileTreeNode } from "@/lib/file-paths";
+
+interface FileTreeProps {
+  files: File[];
+  // Indices into files; a folder removes everything below it
+  onRemove: (indices: number[]) => void;
+}
+
+function getFileIcon(file: File) {
+  if (file.type.startsWith('image/')) return '🖼️';
+  if (file.type.startsWith('video/')) return '🎥';
+  if (file.type.startsWith('audio/')) return '🎵';
+  if (file.type.includes('pdf')) return '📄';
+  if (file.type.includes('zip') || file.type.includes('rar')) return '📦';
+  return '📄';
+}
+
+// Folders first, then files, each alphabetically
+function sortNodes(nodes: FileTreeNode[]) {
+  return [...nodes].sort((a, b) =>
+    Number(a.fileIndex !== undefined) - Number(b.fileIndex !== undefined) || a.name.localeCompare(b.name)
+  );
+}
+
+export function FileTree({ files, onRemove }: FileTreeProps) {
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+
+  const toggle = (path: string) => {
+    setCollapsed(prev => prev.includes(path) ? prev.filter(item => item !== path) : [...prev, path]);
+  };
+
+  const renderNode = (node: FileTreeNode, depth: number): React.ReactNode => {
+    const indent = { paddingLeft: `${depth * 1.25 + 1}rem` };
+
+    if (node.fileIndex !== undefined) {
+      const file = files[node.fileIndex];
+      return (
+        <div
+          key={`${node.path}#${node.fileIndex}`}
+          className="flex items-center justify-between py-3 pr-4 bg-white/30 dark:bg-gray-800/30 rounded-lg"
+          style={indent}
+          data-testid={`file-item-${node.fileIndex}`}
+        >
+          <div className="flex items-center min-w-0">
+            <span className="text-2xl mr-3">{getFileIcon(file)}</span>
+            <div className="min-w-0">
+              <span className="font-medium text-gray-800 dark:text-white break-all">{node.name}</span>
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                {formatFileSize(node.size)}
+              </div>
+            </div>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onRemove([node.fileIndex!])}
+            className="text-red-500 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+            data-testid={`button-remove-file-${node.fileIndex}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      );
+    }
+
+    const isCollapsed = collapsed.includes(node.path);
+    const indices = collectFileIndices(node);
+    const Chevron = isCollapsed ? ChevronRight : ChevronDown;
+
+    return (
+      <div key={node.path} className="space-y-2">
+        <div
+          className="flex items-center justify-between py-3 pr-4 bg-white/20 dark:bg-gray-800/20 rounded-lg"
+          style={indent}
+          data-testid={`folder-item-${node.path}`}
+        >
+          <button
+            type="button"
+            onClick={() => toggle(node.path)}
+            className="flex items-center min-w-0 text-left"
+            aria-expanded={!isCollapsed}
+          >
+            <Chevron className="mr-1 h-4 w-4 shrink-0 text-gray-500" />
+            <Folder className="mr-2 h-5 w-5 shrink-0 text-purple-500" />
+            <span className="font-medium text-gray-800 dark:text-white break-all">{node.name}</span>
+            <span className="ml-2 text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+              {indices.length} {indices.length === 1 ? "file" : "files"}, {formatFileSize(node.size)}
+            </span>
+          </button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onRemove(indices)}
+            className="text-red-500 hover:text-red-700 hover:bg-red-50 dark:hover:bg-red-900/20"
+            data-testid={`button-remove-folder-${node.path}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        {!isCollapsed && sortNodes(node.children).map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  const root = buildFileTree(files);
+
+  return (
+    <div className="max-h-64 overflow-y-auto space-y-2">
+      {sortNodes(root.children).map(node => renderNode(node, 0))}
+    </div>
+  );
+}
@@ -85,7 +85,6 @@ export function InstantConnect({ onModeSelect, onConnection }: InstantConnectPro
               onCopy={() => navigator.clipboard?.writeText(pairingCode)}
               onCancel={() => { setMode(null); setShowQR(false); }}
               isConnected={false}
-              onStartTransfer={() => {}}
             />
             <p className="text-sm text-muted-foreground">
               Receiver scans this to connect instantly
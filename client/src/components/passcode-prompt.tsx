@@ -0,0 +1,81 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Lock } from "lucide-react";
+
+interface PasscodePromptProps {
+  open: boolean;
+  error?: string;
+  isChecking?: boolean;
+  onSubmit: (passcode: string) => void;
+  onCancel: () => void;
+}
+
+export function PasscodePrompt({ open, error, isChecking = false, onSubmit, onCancel }: PasscodePromptProps) {
+  const [passcode, setPasscode] = useState('');
+
+  // Start empty every time the prompt opens
+  useEffect(() => {
+    if (open) setPasscode('');
+  }, [open]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (passcode) onSubmit(passcode);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="glass">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Lock className="mr-2 h-4 w-4 text-emerald-500" />
+              Passcode Required
+            </DialogTitle>
+            <DialogDescription>
+              The sender protected this connection with a passcode. Ask them for it and enter it below.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4">
+            <Input
+              type="password"
+              value={passcode}
+              onChange={(e) => setPasscode(e.target.value)}
+              placeholder="Passcode"
+              className="glass"
+              autoFocus
+              data-testid="input-prompt-passcode"
+            />
+            {error && (
+              <p className="text-sm text-red-500 mt-2" data-testid="text-passcode-error">{error}</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="secondary" onClick={onCancel} data-testid="button-cancel-passcode">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={!passcode || isChecking}
+              className="bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700"
+              data-testid="button-submit-passcode"
+            >
+              {isChecking ? "Checking..." : "Connect"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,38 +1,59 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { QrCode, Copy, Clock, Wifi, X } from "lucide-react";
-import { generateQRCode } from "@/lib/qr-utils";
+import { generateQRCode, splitIntoQrFrames } from "@/lib/qr-utils";
 
 interface QrCodeDisplayProps {
   pairingCode: string;
+  shortCode?: string;
   onCopy: (code: string) => void;
   onCancel: () => void;
   isConnected: boolean;
-  onStartTransfer: () => void;
+  title?: string;
+  waitingMessage?: string;
 }
 
+// Slow enough for the scanner to read each frame at least once per loop
+const FRAME_INTERVAL_MS = 400;
+
 export function QrCodeDisplay({ 
   pairingCode, 
+  shortCode,
   onCopy, 
   onCancel, 
   isConnected,
-  onStartTransfer 
+  title = "Pairing Code Generated",
+  waitingMessage = "Waiting for connection..."
 }: QrCodeDisplayProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frames = useMemo(() => (pairingCode ? splitIntoQrFrames(pairingCode) : []), [pairingCode]);
+  const [frameIndex, setFrameIndex] = useState(0);
+
+  // Large codes loop through their frames until the other side has them all
+  useEffect(() => {
+    setFrameIndex(0);
+    if (frames.length <= 1) return;
+
+    const timer = setInterval(() => {
+      setFrameIndex(index => (index + 1) % frames.length);
+    }, FRAME_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [frames]);
 
   useEffect(() => {
-    if (canvasRef.current && pairingCode) {
-      generateQRCode(pairingCode, canvasRef.current);
+    const frame = frames[frameIndex];
+    if (canvasRef.current && frame) {
+      generateQRCode(frame, canvasRef.current);
     }
-  }, [pairingCode]);
+  }, [frames, frameIndex]);
 
   return (
     <Card className="glass text-center">
       <CardContent className="p-8">
         <h3 className="text-2xl font-semibold mb-6 text-gray-800 dark:text-white">
           <QrCode className="mr-3 text-emerald-500 inline" />
-          Pairing Code Generated
+          {title}
         </h3>
         
         {/* QR Code Display */}
@@ -42,6 +63,11 @@ export function QrCodeDisplay({
             className="w-48 h-48"
             data-testid="qr-code-canvas"
           />
+          {frames.length > 1 && (
+            <p className="text-xs text-gray-500 mt-2" data-testid="text-qr-frame">
+              Part {frameIndex + 1} of {frames.length} &middot; keep the camera on the code
+            </p>
+          )}
         </div>
         
         {/* Pairing Code Text */}
@@ -49,13 +75,13 @@ export function QrCodeDisplay({
           <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">Or share this code:</p>
           <div className="glass p-4 rounded-lg inline-block">
             <span className="font-mono text-2xl font-bold text-emerald-600 dark:text-emerald-400">
-              {pairingCode}
+              {shortCode || pairingCode}
             </span>
           </div>
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => onCopy(pairingCode)}
+            onClick={() => onCopy(shortCode || pairingCode)}
             className="ml-3 text-emerald-600 dark:text-emerald-400 hover:text-emerald-700 dark:hover:text-emerald-300"
             data-testid="button-copy-code"
           >
@@ -73,22 +99,12 @@ export function QrCodeDisplay({
           ) : (
             <div className="flex items-center justify-center space-x-2 text-yellow-600 dark:text-yellow-400">
               <Clock className="animate-pulse" />
-              <span>Waiting for connection...</span>
+              <span>{waitingMessage}</span>
             </div>
           )}
         </div>
-        
+
         <div className="flex gap-4 justify-center">
-          {isConnected ? (
-            <Button
-              onClick={onStartTransfer}
-              className="bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700"
-              data-testid="button-start-transfer"
-            >
-              Start Transfer
-            </Button>
-          ) : null}
-          
           <Button
             variant="secondary"
             onClick={onCancel}
@@ -1,30 +1,48 @@
 import { useEffect, useRef, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
 import { Camera, Video } from "lucide-react";
-import { startQRScanner, stopQRScanner } from "@/lib/qr-utils";
+import { startQRScanner, stopQRScanner, QrFrameAssembler, type QrAssemblyProgress } from "@/lib/qr-utils";
 import { toast } from "@/hooks/use-toast";
 
 interface QrScannerProps {
   onCodeScanned: (code: string) => void;
+  title?: string;
 }
 
-export function QrScanner({ onCodeScanned }: QrScannerProps) {
+export function QrScanner({ onCodeScanned, title = "Scan QR Code" }: QrScannerProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const [isScanning, setIsScanning] = useState(false);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
+  const [progress, setProgress] = useState<QrAssemblyProgress | null>(null);
+  const assemblerRef = useRef(new QrFrameAssembler());
+  // The scanner can report a few more reads before it is stopped
+  const completedRef = useRef(false);
+
+  const handleScan = (result: string) => {
+    if (completedRef.current) return;
+
+    const scanned = assemblerRef.current.add(result);
+    setProgress(scanned);
+    if (scanned.payload === undefined) return;
+
+    completedRef.current = true;
+    onCodeScanned(scanned.payload);
+    stopCamera();
+    toast({
+      title: "QR Code scanned",
+      description: "Attempting to connect..."
+    });
+  };
 
   const startCamera = async () => {
     try {
       if (videoRef.current) {
-        await startQRScanner(videoRef.current, (result) => {
-          onCodeScanned(result);
-          stopCamera();
-          toast({
-            title: "QR Code scanned",
-            description: "Attempting to connect..."
-          });
-        });
+        assemblerRef.current.reset();
+        completedRef.current = false;
+        setProgress(null);
+        await startQRScanner(videoRef.current, handleScan);
         setIsScanning(true);
         setHasPermission(true);
       }
@@ -56,20 +74,20 @@ export function QrScanner({ onCodeScanned }: QrScannerProps) {
       <CardContent className="p-6">
         <h3 className="text-xl font-semibold mb-4 text-gray-800 dark:text-white flex items-center">
           <Camera className="mr-3 text-purple-500" />
-          Scan QR Code
+          {title}
         </h3>
         
         <div className="qr-scanner mb-4">
-          {isScanning ? (
-            <video 
-              ref={videoRef}
-              className="w-full h-64 object-cover rounded-xl"
-              autoPlay
-              playsInline
-              muted
-              data-testid="qr-scanner-video"
-            />
-          ) : (
+          {/* Always mounted so the scanner has an element to attach to before it starts */}
+          <video
+            ref={videoRef}
+            className={`w-full h-64 object-cover rounded-xl ${isScanning ? '' : 'hidden'}`}
+            autoPlay
+            playsInline
+            muted
+            data-testid="qr-scanner-video"
+          />
+          {!isScanning && (
             <div className="w-full h-64 bg-gray-100 dark:bg-gray-800 rounded-xl flex items-center justify-center">
               <div className="text-center">
                 <Camera className="text-gray-400 text-4xl mx-auto mb-3" />
@@ -83,6 +101,15 @@ export function QrScanner({ onCodeScanned }: QrScannerProps) {
             </div>
           )}
         </div>
+
+        {isScanning && progress && progress.total > 1 && (
+          <div className="mb-4" data-testid="qr-scan-progress">
+            <Progress value={(progress.received / progress.total) * 100} className="h-2 mb-1" />
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Scanned {progress.received} of {progress.total} parts
+            </p>
+          </div>
+        )}
         
         <Button
           onClick={isScanning ? stopCamera : startCamera}
@@ -0,0 +1,121 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Laptop, Plus, Send, X, Wifi, Clock, AlertCircle } from "lucide-react";
+import { SasVerification } from "@/components/sas-verification";
+import type { PeerState } from "@/hooks/use-webrtc";
+
+interface ReceiverListProps {
+  receivers: PeerState[];
+  isConfirmed: (receiver: PeerState) => boolean;
+  // The receiver confirmed the code on its side too; files only go to those
+  isPeerConfirmed: (receiver: PeerState) => boolean;
+  onConfirm: (receiver: PeerState) => void;
+  onReject: (receiver: PeerState) => void;
+  onRemove: (receiver: PeerState) => void;
+  // Omitted when no more receivers can join (room mode, or an offer is already open)
+  onAddReceiver?: () => void;
+  onStartTransfer: () => void;
+  onCancel: () => void;
+}
+
+function describeState(receiver: PeerState) {
+  if (receiver.isConnected) {
+    return { icon: Wifi, text: "Connected", className: "text-green-600 dark:text-green-400" };
+  }
+  if (receiver.connectionState === 'failed' || receiver.connectionState === 'disconnected') {
+    return { icon: AlertCircle, text: "Connection lost", className: "text-red-500" };
+  }
+  return { icon: Clock, text: "Connecting...", className: "text-yellow-600 dark:text-yellow-400" };
+}
+
+export function ReceiverList({
+  receivers,
+  isConfirmed,
+  isPeerConfirmed,
+  onConfirm,
+  onReject,
+  onRemove,
+  onAddReceiver,
+  onStartTransfer,
+  onCancel
+}: ReceiverListProps) {
+  const readyCount = receivers.filter(receiver => receiver.isConnected && isConfirmed(receiver) && isPeerConfirmed(receiver)).length;
+
+  return (
+    <Card className="glass">
+      <CardContent className="p-6">
+        <h3 className="text-xl font-semibold mb-4 text-gray-800 dark:text-white flex items-center">
+          <Laptop className="mr-3 text-purple-500" />
+          Receivers
+        </h3>
+
+        <div className="space-y-4 mb-6">
+          {receivers.map(receiver => {
+            const state = describeState(receiver);
+            const StateIcon = state.icon;
+
+            return (
+              <div
+                key={receiver.id}
+                className="p-4 bg-white/30 dark:bg-gray-800/30 rounded-lg"
+                data-testid={`receiver-${receiver.id}`}
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-medium text-gray-800 dark:text-white">{receiver.label}</span>
+                  <div className="flex items-center space-x-3">
+                    <span className={`flex items-center text-sm ${state.className}`}>
+                      <StateIcon className="mr-1 h-4 w-4" />
+                      {state.text}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onRemove(receiver)}
+                      data-testid={`button-remove-${receiver.id}`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {receiver.isConnected && (
+                  <SasVerification
+                    sas={receiver.sas}
+                    confirmed={isConfirmed(receiver)}
+                    awaitingPeer={!isPeerConfirmed(receiver)}
+                    onConfirm={() => onConfirm(receiver)}
+                    onReject={() => onReject(receiver)}
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-wrap gap-4 justify-center">
+          <Button
+            onClick={onStartTransfer}
+            disabled={readyCount === 0}
+            className="bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700"
+            data-testid="button-start-transfer"
+          >
+            <Send className="mr-2 h-4 w-4" />
+            {readyCount > 1 ? `Send to ${readyCount} Receivers` : "Start Transfer"}
+          </Button>
+
+          {onAddReceiver && (
+            <Button variant="secondary" onClick={onAddReceiver} data-testid="button-add-receiver">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Receiver
+            </Button>
+          )}
+
+          <Button variant="secondary" onClick={onCancel} data-testid="button-cancel-sharing">
+            <X className="mr-2 h-4 w-4" />
+            Cancel Sharing
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
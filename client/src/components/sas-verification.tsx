@@ -0,0 +1,77 @@
+import { Button } from "@/components/ui/button";
+import { ShieldCheck, ShieldAlert, Check, Clock, X } from "lucide-react";
+import type { ShortAuthString } from "@/lib/sas";
+
+interface SasVerificationProps {
+  sas: ShortAuthString | null;
+  confirmed: boolean;
+  // Confirmed here, but the other device has not confirmed yet
+  awaitingPeer?: boolean;
+  onConfirm: () => void;
+  onReject: () => void;
+}
+
+export function SasVerification({ sas, confirmed, awaitingPeer = false, onConfirm, onReject }: SasVerificationProps) {
+  if (!sas) {
+    return (
+      <div className="flex items-center justify-center space-x-2 text-gray-500 dark:text-gray-400 mb-6">
+        <ShieldAlert className="h-4 w-4 animate-pulse" />
+        <span>Securing connection...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass p-4 rounded-lg mb-6" data-testid="sas-verification">
+      <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+        Check that the other device shows the same security code
+      </p>
+
+      <div className="flex justify-center gap-4 mb-2">
+        {sas.emoji.map((emoji, index) => (
+          <div key={index} className="flex flex-col items-center w-14">
+            <span className="text-3xl" role="img" aria-label={emoji.name}>{emoji.symbol}</span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{emoji.name}</span>
+          </div>
+        ))}
+      </div>
+
+      <p className="font-mono text-lg tracking-widest text-gray-700 dark:text-gray-200 mb-4" data-testid="sas-numeric">
+        {sas.numeric.slice(0, 3)} {sas.numeric.slice(3)}
+      </p>
+
+      {confirmed && awaitingPeer ? (
+        <div className="flex items-center justify-center space-x-2 text-yellow-600 dark:text-yellow-400" data-testid="sas-awaiting-peer">
+          <Clock className="h-4 w-4" />
+          <span>Verified here; waiting for the other device to confirm</span>
+        </div>
+      ) : confirmed ? (
+        <div className="flex items-center justify-center space-x-2 text-green-600 dark:text-green-400">
+          <ShieldCheck className="h-4 w-4" />
+          <span>Security code verified</span>
+        </div>
+      ) : (
+        <div className="flex gap-3 justify-center">
+          <Button
+            size="sm"
+            onClick={onConfirm}
+            className="bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700"
+            data-testid="button-sas-confirm"
+          >
+            <Check className="mr-2 h-4 w-4" />
+            They match
+          </Button>
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={onReject}
+            data-testid="button-sas-reject"
+          >
+            <X className="mr-2 h-4 w-4" />
+            They don't match
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { MessageSquare, Send, Copy, ExternalLink, ClipboardPaste, ArrowUpRight, ArrowDownLeft } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { MAX_SNIPPET_LENGTH, type Snippet } from "@/hooks/use-snippets";
+
+interface SnippetPanelProps {
+  snippets: Snippet[];
+  autoCopy: boolean;
+  onAutoCopyChange: (autoCopy: boolean) => void;
+  // Returns whether the snippet went out, so the compose box is only cleared then
+  onSend: (text: string) => boolean;
+}
+
+export function SnippetPanel({ snippets, autoCopy, onAutoCopyChange, onSend }: SnippetPanelProps) {
+  const [draft, setDraft] = useState('');
+
+  const handleSend = () => {
+    if (draft.trim() && onSend(draft)) {
+      setDraft('');
+    }
+  };
+
+  const handlePaste = async () => {
+    try {
+      setDraft(await navigator.clipboard.readText());
+    } catch (error) {
+      toast({
+        title: "Clipboard not available",
+        description: "Paste into the box instead.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleCopy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Copied to clipboard"
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to copy",
+        description: "Please copy the text manually.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="glass">
+      <CardContent className="p-6">
+        <h3 className="text-xl font-semibold mb-4 text-gray-800 dark:text-white flex items-center">
+          <MessageSquare className="mr-3 text-emerald-500" />
+          Text & Links
+        </h3>
+
+        <div className="space-y-3 mb-6">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleSend();
+            }}
+            placeholder="Type or paste text, a link or a token..."
+            maxLength={MAX_SNIPPET_LENGTH}
+            className="glass font-mono"
+            data-testid="input-snippet"
+          />
+
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="snippet-auto-copy"
+                checked={autoCopy}
+                onCheckedChange={onAutoCopyChange}
+                data-testid="switch-auto-copy"
+              />
+              <Label htmlFor="snippet-auto-copy" className="text-sm text-gray-600 dark:text-gray-300">
+                Copy received text automatically
+              </Label>
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="secondary" onClick={handlePaste} data-testid="button-paste-snippet">
+                <ClipboardPaste className="mr-2 h-4 w-4" />
+                Paste
+              </Button>
+              <Button
+                onClick={handleSend}
+                disabled={!draft.trim()}
+                className="bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700"
+                data-testid="button-send-snippet"
+              >
+                <Send className="mr-2 h-4 w-4" />
+                Send
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {snippets.length > 0 && (
+          <div className="max-h-64 overflow-y-auto space-y-2">
+            {snippets.map(snippet => (
+              <div
+                key={snippet.id}
+                className="flex items-start p-3 bg-white/30 dark:bg-gray-800/30 rounded-lg"
+                data-testid={`snippet-${snippet.id}`}
+              >
+                {snippet.direction === 'sent' ? (
+                  <ArrowUpRight className="mr-3 mt-1 h-4 w-4 shrink-0 text-purple-500" aria-label="Sent" />
+                ) : (
+                  <ArrowDownLeft className="mr-3 mt-1 h-4 w-4 shrink-0 text-emerald-500" aria-label="Received" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="font-mono text-sm text-gray-800 dark:text-white break-all whitespace-pre-wrap line-clamp-4">
+                    {snippet.text}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {new Date(snippet.timestamp).toLocaleTimeString()}
+                  </p>
+                </div>
+                <div className="flex ml-2 shrink-0">
+                  {snippet.kind === 'url' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => window.open(snippet.text.trim(), '_blank', 'noopener,noreferrer')}
+                      data-testid={`button-open-snippet-${snippet.id}`}
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleCopy(snippet.text)}
+                    data-testid={`button-copy-snippet-${snippet.id}`}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,16 +1,28 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
-import { ArrowLeftRight, X, Check } from "lucide-react";
+import { ArrowLeftRight, X, Check, AlertCircle, Laptop } from "lucide-react";
 import { formatFileSize } from "@/lib/utils";
+import type { ReceiverProgress } from "@/hooks/use-file-transfer";
+
+interface TransferFile {
+  name: string;
+  size: number;
+}
 
 interface TransferProgressProps {
   progress: number;
   speed: number;
   timeRemaining: number;
-  files: File[];
-  onCancel: () => void;
-  onComplete: () => void;
+  files: TransferFile[];
+  // Per-file percentages when known; otherwise estimated from overall progress
+  fileProgress?: number[];
+  // Broadcast transfers list each receiver separately
+  receivers?: ReceiverProgress[];
+  title?: string;
+  // Without it there is nothing to cancel from this side, e.g. incoming files in a session
+  onCancel?: () => void;
+  onComplete?: () => void;
 }
 
 export function TransferProgress({ 
@@ -18,12 +30,17 @@ export function TransferProgress({
   speed, 
   timeRemaining, 
   files, 
+  fileProgress: knownFileProgress,
+  receivers = [],
+  title = "File Transfer in Progress",
   onCancel,
   onComplete 
 }: TransferProgressProps) {
   const totalSize = files.reduce((sum, file) => sum + file.size, 0);
   const transferredSize = (progress / 100) * totalSize;
-  const completedFiles = Math.floor((progress / 100) * files.length);
+  const completedFiles = knownFileProgress
+    ? knownFileProgress.filter(value => value >= 100).length
+    : Math.floor((progress / 100) * files.length);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -37,20 +54,22 @@ export function TransferProgress({
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold text-gray-800 dark:text-white flex items-center">
           <ArrowLeftRight className="mr-3 text-emerald-500" />
-          File Transfer in Progress
+          {title}
         </h2>
         <div className="flex items-center space-x-4">
           <div className="text-sm text-gray-600 dark:text-gray-300">
             {Math.round(progress)}% Complete
           </div>
-          <Button
-            variant="destructive"
-            onClick={onCancel}
-            data-testid="button-cancel-transfer"
-          >
-            <X className="mr-2 h-4 w-4" />
-            Cancel
-          </Button>
+          {onCancel && (
+            <Button
+              variant="destructive"
+              onClick={onCancel}
+              data-testid="button-cancel-transfer"
+            >
+              <X className="mr-2 h-4 w-4" />
+              Cancel
+            </Button>
+          )}
         </div>
       </div>
 
@@ -94,13 +113,54 @@ export function TransferProgress({
             </div>
           </div>
           
+          {receivers.length > 1 && (
+            <div className="space-y-3 mb-6">
+              <h4 className="font-semibold text-gray-800 dark:text-white mb-3">Receivers</h4>
+
+              <div className="space-y-2">
+                {receivers.map(receiver => (
+                  <div
+                    key={receiver.id}
+                    className="flex items-center p-3 bg-white/30 dark:bg-gray-800/30 rounded-lg"
+                    data-testid={`receiver-progress-${receiver.id}`}
+                  >
+                    <Laptop className="mr-3 h-5 w-5 text-purple-500" />
+                    <div className="flex-1">
+                      <div className="flex justify-between text-sm">
+                        <span className="font-medium text-gray-800 dark:text-white">{receiver.label}</span>
+                        {receiver.status === 'failed' ? (
+                          <span className="text-red-500 flex items-center">
+                            <AlertCircle className="mr-1 h-4 w-4" />
+                            {receiver.error || "Failed"}
+                          </span>
+                        ) : receiver.status === 'done' ? (
+                          <span className="text-green-600 dark:text-green-400 flex items-center">
+                            <Check className="mr-1 h-4 w-4" />
+                            Complete
+                          </span>
+                        ) : (
+                          <span className="text-emerald-600 dark:text-emerald-400">
+                            {receiver.status === 'waiting' ? "Waiting..." : `${Math.round(receiver.progress)}%`}
+                          </span>
+                        )}
+                      </div>
+                      <Progress value={receiver.progress} className="h-2 mt-1" />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Individual File Progress */}
           <div className="space-y-3">
             <h4 className="font-semibold text-gray-800 dark:text-white mb-3">File Progress</h4>
             
             <div className="max-h-64 overflow-y-auto space-y-2">
               {files.map((file, index) => {
-                const fileProgress = Math.min(100, Math.max(0, (progress - (index * 100 / files.length)) * files.length));
+                const fileProgress = knownFileProgress
+                  ? knownFileProgress[index] ?? 0
+                  : Math.min(100, Math.max(0, (progress - (index * 100 / files.length)) * files.length));
                 const isComplete = fileProgress >= 100;
                 
                 return (
@@ -0,0 +1,458 @@
+import { useState, useCallback, useRef } from "react";
+import { decodeFrame, isFrame, isFrameIntact, FrameType } from "@/lib/frame-protocol";
+import { isFileSystemAccessSupported } from "@/lib/utils";
+import { coveredBytes, missingRanges } from "@/lib/byte-ranges";
+import { StorageManager, type ManifestFileInfo } from "@/storage/manager";
+import type { CollisionChoice, CollisionPolicy } from "@/lib/filename-policy";
+
+export type ReceivedFileStatus = 'pending' | 'receiving' | 'saving' | 'saved' | 'skipped' | 'failed';
+
+export interface ReceivedFile {
+  name: string;
+  size: number;
+  type: string;
+  received: number;
+  status: ReceivedFileStatus;
+}
+
+interface ReceiveState {
+  files: ReceivedFile[];
+  totalBytes: number;
+  bytesReceived: number;
+  speed: number;
+  timeRemaining: number;
+  isReceiving: boolean;
+  isComplete: boolean;
+  isResumed: boolean;
+}
+
+// A file waiting on retransmissions asks again if no missing data arrives for
+// this long, and fails after a few rounds
+const PENDING_END_TIMEOUT_MS = 15000;
+const MAX_GAP_REQUESTS = 3;
+
+type Reply = (data: ArrayBuffer | string) => boolean;
+
+// The File System Access picker is not in TypeScript's DOM types yet
+interface DirectoryPickerWindow {
+  showDirectoryPicker(options: { mode: 'readwrite' }): Promise<FileSystemDirectoryHandle>;
+}
+
+const initialState: ReceiveState = {
+  files: [],
+  totalBytes: 0,
+  bytesReceived: 0,
+  speed: 0,
+  timeRemaining: 0,
+  isReceiving: false,
+  isComplete: false,
+  isResumed: false
+};
+
+export function useFileReceive() {
+  const [receiveState, setReceiveState] = useState<ReceiveState>(initialState);
+  const [collisionPolicy, setCollisionPolicy] = useState<CollisionPolicy>('rename');
+  // Path waiting on the user's answer under the 'ask' policy
+  const [collisionPrompt, setCollisionPrompt] = useState<string | null>(null);
+
+  const collisionPolicyRef = useRef(collisionPolicy);
+  collisionPolicyRef.current = collisionPolicy;
+  const collisionResolverRef = useRef<((choice: CollisionChoice) => void) | null>(null);
+  // "Apply to remaining files" answers the rest of the current transfer
+  const collisionAnswerRef = useRef<CollisionChoice | null>(null);
+
+  const storageRef = useRef<StorageManager | null>(null);
+  const manifestRef = useRef<ManifestFileInfo[]>([]);
+  const bytesReceivedRef = useRef(0);
+  // Bytes already on hand when this session started, excluded from the speed
+  const resumedBytesRef = useRef(0);
+  const receiveStartTimeRef = useRef(0);
+  // Messages are handled strictly in arrival order; storage writes are async
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  // file-end arrived while NACKed ranges were still outstanding: index -> sha256
+  const pendingEndsRef = useRef(new Map<number, string | undefined>());
+  const pendingTimersRef = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+  const gapRequestsRef = useRef(new Map<number, number>());
+  // Channel back to the sender of the current transfer, and that transfer's ID
+  const replyRef = useRef<Reply | undefined>(undefined);
+  const transferIdRef = useRef<string | null>(null);
+  // Files the sender stopped retransmitting
+  const abandonedRef = useRef(new Set<number>());
+  const transferEndedRef = useRef(false);
+
+  const getStorage = useCallback(() => {
+    if (!storageRef.current) {
+      storageRef.current = new StorageManager();
+      storageRef.current.init().catch(error => {
+        console.warn('Failed to initialize storage:', error);
+      });
+    }
+    return storageRef.current;
+  }, []);
+
+  const updateFile = useCallback((fileIndex: number, update: Partial<ReceivedFile>) => {
+    setReceiveState(prev => ({
+      ...prev,
+      files: prev.files.map((file, index) => index === fileIndex ? { ...file, ...update } : file)
+    }));
+  }, []);
+
+  // Done once the sender said so and no file is waiting on retransmissions
+  const checkComplete = useCallback(async () => {
+    if (transferEndedRef.current && pendingEndsRef.current.size === 0) {
+      // Ends a ZIP download even when some files failed
+      await storageRef.current?.completeReceive();
+      setReceiveState(prev => ({ ...prev, isReceiving: false, isComplete: true, timeRemaining: 0 }));
+      // The sender holds its next batch until this arrives
+      replyRef.current?.(JSON.stringify({ type: 'transfer-done', transferId: transferIdRef.current }));
+    }
+  }, []);
+
+  const clearPendingTimers = useCallback(() => {
+    pendingTimersRef.current.forEach(timer => clearTimeout(timer));
+    pendingTimersRef.current.clear();
+  }, []);
+
+  // Gives up on a file that ended with gaps nobody is going to fill
+  const failPendingFile = useCallback(async (fileIndex: number, reason: string) => {
+    if (!pendingEndsRef.current.has(fileIndex)) return;
+
+    pendingEndsRef.current.delete(fileIndex);
+    clearTimeout(pendingTimersRef.current.get(fileIndex));
+    pendingTimersRef.current.delete(fileIndex);
+
+    console.error(`Failed to receive ${manifestRef.current[fileIndex]?.name}: ${reason}`);
+    updateFile(fileIndex, { status: 'failed' });
+    await checkComplete();
+  }, [updateFile, checkComplete]);
+
+  // The channel may drop chunks without notice; ask for every gap
+  const requestMissing = useCallback((fileIndex: number) => {
+    const size = manifestRef.current[fileIndex]?.size ?? 0;
+    const received = storageRef.current?.getReceivedRanges()[fileIndex] || [];
+    missingRanges(received, size).forEach(([start, end]) => {
+      replyRef.current?.(JSON.stringify({
+        type: 'nack',
+        transferId: transferIdRef.current,
+        fileIndex,
+        offset: start,
+        length: end - start
+      }));
+    });
+  }, []);
+
+  // (Re)started whenever missing data for the file arrives
+  const armPendingTimeout = useCallback((fileIndex: number) => {
+    clearTimeout(pendingTimersRef.current.get(fileIndex));
+    pendingTimersRef.current.set(fileIndex, setTimeout(() => {
+      queueRef.current = queueRef.current
+        .then(async () => {
+          if (!pendingEndsRef.current.has(fileIndex)) return;
+
+          const requests = (gapRequestsRef.current.get(fileIndex) || 0) + 1;
+          if (requests > MAX_GAP_REQUESTS) {
+            await failPendingFile(fileIndex, 'retransmission timed out');
+            return;
+          }
+          gapRequestsRef.current.set(fileIndex, requests);
+          requestMissing(fileIndex);
+          armPendingTimeout(fileIndex);
+        })
+        .catch(error => console.error('Error requesting missing data:', error));
+    }, PENDING_END_TIMEOUT_MS));
+  }, [failPendingFile, requestMissing]);
+
+  const finalizeFile = useCallback(async (fileIndex: number, sha256?: string) => {
+    pendingEndsRef.current.delete(fileIndex);
+    clearTimeout(pendingTimersRef.current.get(fileIndex));
+    pendingTimersRef.current.delete(fileIndex);
+    const fileInfo = manifestRef.current[fileIndex];
+    if (!fileInfo) return;
+
+    updateFile(fileIndex, { status: 'saving' });
+    try {
+      // Verified against the digest the sender computed while sending
+      const result = await getStorage().finalizeFile(fileIndex, fileInfo, sha256);
+      updateFile(fileIndex, { status: result.skipped ? 'skipped' : 'saved' });
+    } catch (error) {
+      console.error(`Failed to save ${fileInfo.name}:`, error);
+      updateFile(fileIndex, { status: 'failed' });
+    }
+    await checkComplete();
+  }, [getStorage, updateFile, checkComplete]);
+
+  const handleChunk = useCallback(async (
+    buffer: ArrayBuffer,
+    reply?: (data: ArrayBuffer | string) => boolean
+  ) => {
+    const frame = decodeFrame(buffer);
+    if (frame.type !== FrameType.Chunk) return;
+
+    // Ask for just this range again rather than failing the file
+    if (!isFrameIntact(frame)) {
+      console.warn(`Corrupted chunk at ${frame.offset} of file ${frame.fileIndex}, requesting it again`);
+      reply?.(JSON.stringify({
+        type: 'nack',
+        transferId: transferIdRef.current,
+        fileIndex: frame.fileIndex,
+        offset: frame.offset,
+        length: frame.payload.byteLength
+      }));
+      return;
+    }
+
+    const storage = getStorage();
+    // Duplicates and overlapping retransmissions only count the bytes they add
+    const heldBefore = storage.getReceivedBytes(frame.fileIndex);
+    await storage.writeChunk(frame.fileIndex, frame.offset, frame.payload);
+    const fileReceived = storage.getReceivedBytes(frame.fileIndex);
+
+    // A streamed download piling up data behind a gap asks for it without waiting for file-end
+    const stalledGap = await storage.takeStalledGap(frame.fileIndex);
+    if (stalledGap) {
+      const [start, end] = stalledGap;
+      reply?.(JSON.stringify({
+        type: 'nack',
+        transferId: transferIdRef.current,
+        fileIndex: frame.fileIndex,
+        offset: start,
+        length: end - start
+      }));
+    }
+
+    bytesReceivedRef.current += fileReceived - heldBefore;
+    const bytesReceived = bytesReceivedRef.current;
+    const elapsedTime = (Date.now() - receiveStartTimeRef.current) / 1000;
+    const speed = elapsedTime > 0 ? (bytesReceived - resumedBytesRef.current) / elapsedTime : 0;
+
+    setReceiveState(prev => {
+      const remainingBytes = prev.totalBytes - bytesReceived;
+      return {
+        ...prev,
+        bytesReceived,
+        speed,
+        timeRemaining: speed > 0 ? Math.ceil(remainingBytes / speed) : 0,
+        files: prev.files.map((file, index) =>
+          index === frame.fileIndex
+            ? { ...file, received: fileReceived }
+            : file
+        )
+      };
+    });
+
+    // A retransmission filled the last gap of a file that already ended
+    if (pendingEndsRef.current.has(frame.fileIndex)) {
+      if (storage.isFileComplete(frame.fileIndex)) {
+        await finalizeFile(frame.fileIndex, pendingEndsRef.current.get(frame.fileIndex));
+      } else {
+        armPendingTimeout(frame.fileIndex);
+      }
+    }
+  }, [getStorage, finalizeFile, armPendingTimeout]);
+
+  const handleControlMessage = useCallback(async (
+    message: any,
+    reply?: (data: ArrayBuffer | string) => boolean
+  ) => {
+    switch (message.type) {
+      case 'metadata': {
+        const files: ManifestFileInfo[] = message.files.map((file: any, index: number) => ({
+          id: index,
+          name: file.name,
+          path: typeof file.path === 'string' ? file.path : file.name,
+          size: file.size,
+          type: file.type
+        }));
+
+        // Files of the previous transfer still waiting on retransmissions will not get them now
+        for (const fileIndex of Array.from(pendingEndsRef.current.keys())) {
+          await failPendingFile(fileIndex, 'a new transfer started before it was complete');
+        }
+
+        manifestRef.current = files;
+        clearPendingTimers();
+        abandonedRef.current.clear();
+        gapRequestsRef.current.clear();
+        replyRef.current = reply;
+        transferIdRef.current = message.transferId;
+        transferEndedRef.current = false;
+        collisionAnswerRef.current = null;
+
+        const onCollision = (path: string) => {
+          if (collisionAnswerRef.current) {
+            return Promise.resolve(collisionAnswerRef.current);
+          }
+          // Keeps the sender waiting for the ack while the user decides
+          reply?.(JSON.stringify({ type: 'metadata-hold', transferId: message.transferId }));
+          return new Promise<CollisionChoice>(resolve => {
+            collisionResolverRef.current = resolve;
+            setCollisionPrompt(path);
+          });
+        };
+
+        const { resumed, received, completed, skipped } = await getStorage().prepareReceive({
+          transferId: message.transferId,
+          files
+        }, {
+          collisionPolicy: collisionPolicyRef.current,
+          onCollision
+        });
+
+        const receivedFiles: ReceivedFile[] = files.map(file => {
+          if (skipped.includes(file.id)) {
+            return { ...file, received: file.size, status: 'skipped' };
+          }
+          return completed.includes(file.id)
+            ? { ...file, received: file.size, status: 'saved' }
+            : { ...file, received: coveredBytes(received[file.id] || []), status: 'pending' };
+        });
+
+        bytesReceivedRef.current = receivedFiles.reduce((sum, file) => sum + file.received, 0);
+        resumedBytesRef.current = bytesReceivedRef.current;
+        receiveStartTimeRef.current = Date.now();
+
+        setReceiveState({
+          ...initialState,
+          files: receivedFiles,
+          totalBytes: message.totalBytes,
+          bytesReceived: bytesReceivedRef.current,
+          isReceiving: true,
+          isResumed: resumed
+        });
+
+        // Tell the sender what it can skip
+        reply?.(JSON.stringify({
+          type: 'metadata-ack',
+          transferId: message.transferId,
+          received,
+          completed
+        }));
+        break;
+      }
+
+      case 'file-start':
+        updateFile(message.fileIndex, { status: 'receiving' });
+        break;
+
+      case 'file-end': {
+        const storage = getStorage();
+        if (storage.isFileComplete(message.fileIndex)) {
+          await finalizeFile(message.fileIndex, message.sha256);
+          break;
+        }
+
+        pendingEndsRef.current.set(message.fileIndex, message.sha256);
+        if (abandonedRef.current.has(message.fileIndex)) {
+          await failPendingFile(message.fileIndex, 'the sender gave up retransmitting it');
+          break;
+        }
+
+        requestMissing(message.fileIndex);
+        armPendingTimeout(message.fileIndex);
+        break;
+      }
+
+      case 'file-failed':
+        if (message.transferId !== transferIdRef.current) break;
+        abandonedRef.current.add(message.fileIndex);
+        await failPendingFile(message.fileIndex, 'the sender gave up retransmitting it');
+        break;
+
+      case 'transfer-complete':
+        if (message.transferId !== transferIdRef.current) break;
+        transferEndedRef.current = true;
+        await checkComplete();
+        break;
+    }
+  }, [getStorage, updateFile, finalizeFile, checkComplete, clearPendingTimers, failPendingFile, requestMissing, armPendingTimeout]);
+
+  // Feed every message from the data channel through here
+  const handleData = useCallback((data: any, reply?: (data: ArrayBuffer | string) => boolean) => {
+    queueRef.current = queueRef.current
+      .then(() => isFrame(data) ? handleChunk(data, reply) : handleControlMessage(data, reply))
+      .catch(error => {
+        console.error('Error handling received data:', error);
+      });
+  }, [handleChunk, handleControlMessage]);
+
+  // Connection dropped: commit partial files so the transfer can resume later
+  const suspendReceive = useCallback(() => {
+    // Nothing can arrive until the sender reconnects and resumes
+    clearPendingTimers();
+    queueRef.current = queueRef.current
+      .then(() => storageRef.current?.suspendReceive())
+      .catch(error => {
+        console.error('Failed to suspend receive:', error);
+      });
+    return queueRef.current;
+  }, [clearPendingTimers]);
+
+  const answerCollision = useCallback((choice: CollisionChoice, applyToAll = false) => {
+    const resolve = collisionResolverRef.current;
+    collisionResolverRef.current = null;
+    if (applyToAll) {
+      collisionAnswerRef.current = choice;
+    }
+    setCollisionPrompt(null);
+    resolve?.(choice);
+  }, []);
+
+  // Must run from a user gesture; the browser will not show the picker otherwise
+  const chooseDirectory = useCallback(async () => {
+    if (!isFileSystemAccessSupported()) {
+      throw new Error('This browser cannot save into a chosen folder');
+    }
+
+    let handle: FileSystemDirectoryHandle;
+    try {
+      handle = await (window as unknown as DirectoryPickerWindow).showDirectoryPicker({ mode: 'readwrite' });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        throw new Error('Directory selection cancelled');
+      }
+      throw error;
+    }
+
+    await getStorage().setDirectoryHandle(handle);
+    return handle.name;
+  }, [getStorage]);
+
+  const resetReceive = useCallback(() => {
+    // Nothing is written for a transfer that was left mid-question
+    if (collisionResolverRef.current) {
+      answerCollision('skip', true);
+    }
+    manifestRef.current = [];
+    pendingEndsRef.current.clear();
+    clearPendingTimers();
+    abandonedRef.current.clear();
+    transferIdRef.current = null;
+    transferEndedRef.current = false;
+    bytesReceivedRef.current = 0;
+    resumedBytesRef.current = 0;
+    setReceiveState(initialState);
+  }, [answerCollision, clearPendingTimers]);
+
+  const progress = receiveState.totalBytes > 0
+    ? (receiveState.bytesReceived / receiveState.totalBytes) * 100
+    : 0;
+
+  return {
+    receivedFiles: receiveState.files,
+    receiveProgress: receiveState.isComplete ? 100 : progress,
+    receiveSpeed: receiveState.speed,
+    receiveTimeRemaining: receiveState.timeRemaining,
+    isReceiving: receiveState.isReceiving,
+    isReceiveComplete: receiveState.isComplete,
+    isReceiveResumed: receiveState.isResumed,
+    canChooseDirectory: isFileSystemAccessSupported(),
+    collisionPolicy,
+    setCollisionPolicy,
+    collisionPrompt,
+    answerCollision,
+    handleData,
+    suspendReceive,
+    chooseDirectory,
+    resetReceive
+  };
+}
@@ -1,4 +1,8 @@
 import { useState, useCallback, useRef } from "react";
+import { encodeFrame, FrameType } from "@/lib/frame-protocol";
+import { addRange, coveredBytes, missingRanges, type ByteRange } from "@/lib/byte-ranges";
+import { Sha256, updateFromBlob } from "@/lib/sha256";
+import { getRelativePath } from "@/lib/file-paths";
 
 interface TransferState {
   progress: number;
@@ -7,6 +11,88 @@ interface TransferState {
   isTransferring: boolean;
   currentFileIndex: number;
   bytesTransferred: number;
+  files: File[];
+  receivers: ReceiverProgress[];
+}
+
+// One connected receiver of a (possibly broadcast) transfer
+export interface TransferTarget {
+  id: string;
+  label: string;
+  sendData: (data: ArrayBuffer | string) => boolean;
+  waitForBuffer: (signal?: AbortSignal) => Promise<void>;
+}
+
+export interface ReceiverProgress {
+  id: string;
+  label: string;
+  progress: number;
+  status: 'waiting' | 'sending' | 'done' | 'failed';
+  error?: string;
+}
+
+// Receiver's answer to metadata: what it already holds from an earlier attempt
+interface MetadataAck {
+  transferId: string;
+  received: Record<number, ByteRange[]>;
+  completed: number[];
+}
+
+interface PendingAck {
+  transferId: string;
+  resolve: (ack: MetadataAck) => void;
+  // The receiver is waiting on its user before it can answer
+  hold: () => void;
+  // The receiver answered that it takes no files from this side
+  refuse: () => void;
+}
+
+// Waiting for a receiver to report it holds every file, or gave up on some
+interface PendingDone {
+  transferId: string;
+  resolve: () => void;
+  // The receiver is still asking for missing data
+  extend: () => void;
+}
+
+interface ActiveTransfer {
+  transferId: string;
+  files: File[];
+  targets: Record<string, TransferTarget>;
+}
+
+// Per-receiver bookkeeping inside startTransfer
+interface ReceiverSession {
+  target: TransferTarget;
+  ack: MetadataAck;
+  transferred: number;
+  failed: boolean;
+}
+
+const ACK_TIMEOUT_MS = 15000;
+// Time a receiver gets to answer its user's prompts (file name collisions)
+const ACK_HOLD_TIMEOUT_MS = 5 * 60 * 1000;
+// Longer than a receiver spends re-requesting a gap before it fails the file
+const DONE_TIMEOUT_MS = 60000;
+const CHUNK_SIZE = 16 * 1024;
+// A chunk that keeps arriving damaged points at a broken link, not bad luck
+const MAX_RETRANSMITS = 5;
+
+// The other device is connected but not taking files from this side, e.g. a
+// broadcast receiver; nothing is wrong with the connection
+export class TransferRefusedError extends Error {
+  constructor() {
+    super('The other device is not accepting files from this one');
+    this.name = 'TransferRefusedError';
+  }
+}
+
+// The same selection of files always maps to the same ID, so a re-send after
+// a dropped connection (or a reload) is recognised by the receiver
+async function createTransferId(files: File[]): Promise<string> {
+  const fingerprint = JSON.stringify(files.map(file => [getRelativePath(file), file.size, file.type, file.lastModified]));
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(fingerprint));
+  return Array.from(new Uint8Array(digest).slice(0, 16), byte => byte.toString(16).padStart(2, '0')).join('');
 }
 
 export function useFileTransfer() {
@@ -16,112 +102,421 @@ export function useFileTransfer() {
     timeRemaining: 0,
     isTransferring: false,
     currentFileIndex: 0,
-    bytesTransferred: 0
+    bytesTransferred: 0,
+    files: [],
+    receivers: []
   });
+  // Batches waiting behind the one being sent, in send order
+  const [queuedTransfers, setQueuedTransfers] = useState<File[][]>([]);
 
   const abortControllerRef = useRef<AbortController | null>(null);
   const transferStartTimeRef = useRef<number>(0);
+  const pendingAcksRef = useRef(new Map<string, PendingAck>());
+  const pendingDonesRef = useRef(new Map<string, PendingDone>());
+  // Kept after the last chunk is sent so late NACKs can still be served
+  const activeTransferRef = useRef<ActiveTransfer | null>(null);
+  const retransmitQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const retransmitCountsRef = useRef(new Map<string, number>());
+  const sendQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Bumped on cancel so batches still waiting in the queue are dropped as well
+  const queueGenerationRef = useRef(0);
+
+  const waitForAck = useCallback((peerId: string, transferId: string, signal: AbortSignal) => {
+    return new Promise<MetadataAck>((resolve, reject) => {
+      const finish = () => {
+        clearTimeout(timeout);
+        signal.removeEventListener('abort', onAbort);
+        pendingAcksRef.current.delete(peerId);
+      };
+      const onAbort = () => {
+        finish();
+        reject(new DOMException('Transfer cancelled', 'AbortError'));
+      };
+      const onTimeout = () => {
+        finish();
+        reject(new Error('Receiver did not acknowledge the transfer'));
+      };
+      let timeout = setTimeout(onTimeout, ACK_TIMEOUT_MS);
+
+      signal.addEventListener('abort', onAbort);
+      pendingAcksRef.current.set(peerId, {
+        transferId,
+        resolve: ack => {
+          finish();
+          resolve(ack);
+        },
+        hold: () => {
+          clearTimeout(timeout);
+          timeout = setTimeout(onTimeout, ACK_HOLD_TIMEOUT_MS);
+        },
+        refuse: () => {
+          finish();
+          reject(new TransferRefusedError());
+        }
+      });
+    });
+  }, []);
+
+  const waitForDone = useCallback((peerId: string, transferId: string, signal: AbortSignal) => {
+    return new Promise<void>((resolve, reject) => {
+      const finish = () => {
+        clearTimeout(timeout);
+        signal.removeEventListener('abort', onAbort);
+        pendingDonesRef.current.delete(peerId);
+      };
+      const onAbort = () => {
+        finish();
+        reject(new DOMException('Transfer cancelled', 'AbortError'));
+      };
+      const onTimeout = () => {
+        finish();
+        reject(new Error('Receiver did not confirm it has every file'));
+      };
+      let timeout = setTimeout(onTimeout, DONE_TIMEOUT_MS);
+
+      signal.addEventListener('abort', onAbort);
+      pendingDonesRef.current.set(peerId, {
+        transferId,
+        resolve: () => {
+          finish();
+          resolve();
+        },
+        extend: () => {
+          clearTimeout(timeout);
+          timeout = setTimeout(onTimeout, DONE_TIMEOUT_MS);
+        }
+      });
+    });
+  }, []);
+
+  // Re-read a range the receiver got damaged or never got and send it again, to
+  // that receiver only. Gaps reported at file-end can span many chunks
+  const retransmit = useCallback((peerId: string, fileIndex: number, offset: number, length: number) => {
+    const active = activeTransferRef.current;
+    const target = active?.targets[peerId];
+    const file = active?.files[fileIndex];
+    if (!active || !target || !file || offset < 0 || length <= 0 || offset + length > file.size) return;
+
+    const key = `${peerId}:${fileIndex}:${offset}`;
+    const attempts = (retransmitCountsRef.current.get(key) || 0) + 1;
+    if (attempts > MAX_RETRANSMITS) {
+      console.error(`Giving up on ${file.name} at offset ${offset} for ${target.label} after ${MAX_RETRANSMITS} retransmissions`);
+      // The receiver fails the file instead of waiting for it
+      target.sendData(JSON.stringify({ type: 'file-failed', transferId: active.transferId, fileIndex }));
+      return;
+    }
+    retransmitCountsRef.current.set(key, attempts);
+
+    retransmitQueueRef.current = retransmitQueueRef.current
+      .then(async () => {
+        for (let start = offset; start < offset + length; start += CHUNK_SIZE) {
+          const end = Math.min(start + CHUNK_SIZE, offset + length);
+          await target.waitForBuffer();
+          const payload = new Uint8Array(await file.slice(start, end).arrayBuffer());
+          if (!target.sendData(encodeFrame({ type: FrameType.Chunk, fileIndex, offset: start, payload }))) return;
+        }
+      })
+      .catch(error => {
+        console.warn('Retransmission failed:', error);
+      });
+  }, []);
+
+  // Feed control messages from each receiver through here
+  const handleTransferMessage = useCallback((message: any, peerId: string) => {
+    switch (message?.type) {
+      case 'metadata-ack': {
+        const pending = pendingAcksRef.current.get(peerId);
+        if (pending && message.transferId === pending.transferId) {
+          pending.resolve(message);
+        }
+        break;
+      }
+
+      case 'metadata-hold': {
+        const pending = pendingAcksRef.current.get(peerId);
+        if (pending && message.transferId === pending.transferId) {
+          pending.hold();
+        }
+        break;
+      }
+
+      case 'not-accepted': {
+        const pending = pendingAcksRef.current.get(peerId);
+        if (pending && message.transferId === pending.transferId) {
+          pending.refuse();
+        }
+        break;
+      }
+
+      case 'transfer-done': {
+        const pending = pendingDonesRef.current.get(peerId);
+        if (pending && message.transferId === pending.transferId) {
+          pending.resolve();
+        }
+        break;
+      }
+
+      // A NACK for an earlier batch must not be served from this one's files
+      case 'nack':
+        if (message.transferId !== activeTransferRef.current?.transferId) break;
+        pendingDonesRef.current.get(peerId)?.extend();
+        retransmit(peerId, message.fileIndex, message.offset, message.length);
+        break;
+    }
+  }, [retransmit]);
+
+  // Sends one file set to every target. Each chunk is read from disk once and
+  // handed to every receiver still missing it; a receiver that drops out is
+  // marked failed and the others carry on.
+  const startTransfer = useCallback(async (files: File[], targets: TransferTarget[]) => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    activeTransferRef.current = null;
+    retransmitCountsRef.current.clear();
 
-  const startTransfer = useCallback(async (
-    files: File[],
-    sendData: (data: ArrayBuffer | string) => boolean
-  ) => {
-    abortControllerRef.current = new AbortController();
-    transferStartTimeRef.current = Date.now();
-    
     setTransferState(prev => ({
       ...prev,
       isTransferring: true,
       progress: 0,
       currentFileIndex: 0,
-      bytesTransferred: 0
+      bytesTransferred: 0,
+      files,
+      receivers: targets.map(({ id, label }) => ({ id, label, progress: 0, status: 'waiting' }))
     }));
 
+    const updateReceiver = (id: string, update: Partial<ReceiverProgress>) => {
+      setTransferState(prev => ({
+        ...prev,
+        receivers: prev.receivers.map(receiver => (receiver.id === id ? { ...receiver, ...update } : receiver))
+      }));
+    };
+
+    let lastError: unknown = null;
+    const fail = (session: ReceiverSession, error: unknown) => {
+      if (session.failed) return;
+      session.failed = true;
+      lastError = error;
+      updateReceiver(session.target.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    };
+
+    // A closed channel means that receiver's connection dropped
+    const send = (session: ReceiverSession, data: ArrayBuffer | string) => {
+      if (!session.failed && !session.target.sendData(data)) {
+        fail(session, new Error('Connection lost'));
+      }
+    };
+
     try {
       const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
-      let transferredBytes = 0;
+      const transferId = await createTransferId(files);
+      activeTransferRef.current = {
+        transferId,
+        files,
+        targets: Object.fromEntries(targets.map(target => [target.id, target]))
+      };
 
       // Send metadata first
-      const metadata = {
+      const metadata = JSON.stringify({
         type: 'metadata',
+        transferId,
         files: files.map(file => ({
           name: file.name,
+          path: getRelativePath(file),
           size: file.size,
           type: file.type
         })),
         totalBytes
+      });
+
+      const handshakes = await Promise.all(targets.map(async target => {
+        try {
+          // Register for the ack before sending so a fast reply is not missed
+          const ackPromise = waitForAck(target.id, transferId, abortController.signal);
+          if (!target.sendData(metadata)) {
+            throw new Error('Connection lost');
+          }
+          const ack = await ackPromise;
+
+          // Whatever the receiver kept from an earlier attempt counts as sent
+          const transferred = files.reduce((sum, file, fileIndex) => sum + (
+            ack.completed.includes(fileIndex)
+              ? file.size
+              : coveredBytes(ack.received[fileIndex] || [])
+          ), 0);
+          updateReceiver(target.id, {
+            status: 'sending',
+            progress: totalBytes > 0 ? (transferred / totalBytes) * 100 : 0
+          });
+          return { target, ack, transferred, failed: false };
+        } catch (error) {
+          lastError = error;
+          updateReceiver(target.id, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Unknown error'
+          });
+          return null;
+        }
+      }));
+      if (abortController.signal.aborted) throw new DOMException('Transfer cancelled', 'AbortError');
+
+      const sessions = handshakes.filter((session): session is ReceiverSession => session !== null);
+      const live = () => sessions.filter(session => !session.failed);
+      const ensureLive = () => {
+        if (live().length === 0) {
+          throw lastError instanceof Error ? lastError : new Error('Every receiver disconnected');
+        }
+      };
+      ensureLive();
+
+      // Overall figures are averaged over the receivers still connected
+      const averageTransferred = () => {
+        const current = live();
+        return current.reduce((sum, session) => sum + session.transferred, 0) / Math.max(current.length, 1);
+      };
+      const resumedBytes = averageTransferred();
+      transferStartTimeRef.current = Date.now();
+
+      const reportProgress = () => {
+        const transferredBytes = averageTransferred();
+        const elapsedTime = (Date.now() - transferStartTimeRef.current) / 1000;
+        const speed = elapsedTime > 0 ? (transferredBytes - resumedBytes) / elapsedTime : 0;
+        const remainingBytes = totalBytes - transferredBytes;
+
+        setTransferState(prev => ({
+          ...prev,
+          progress: totalBytes > 0 ? (transferredBytes / totalBytes) * 100 : 0,
+          speed,
+          timeRemaining: speed > 0 ? Math.ceil(remainingBytes / speed) : 0,
+          bytesTransferred: transferredBytes,
+          receivers: prev.receivers.map(receiver => {
+            const session = sessions.find(session => session.target.id === receiver.id);
+            return session && !session.failed && totalBytes > 0
+              ? { ...receiver, progress: (session.transferred / totalBytes) * 100 }
+              : receiver;
+          })
+        }));
       };
-      
-      sendData(JSON.stringify(metadata));
+      reportProgress();
 
       // Transfer files
       for (let fileIndex = 0; fileIndex < files.length; fileIndex++) {
-        if (abortControllerRef.current?.signal.aborted) break;
+        if (abortController.signal.aborted) break;
 
-        const file = files[fileIndex];
-        const chunkSize = 16 * 1024; // 16KB chunks
-        let fileOffset = 0;
+        const needs = live()
+          .filter(session => !session.ack.completed.includes(fileIndex))
+          .map(session => ({
+            session,
+            missing: missingRanges(session.ack.received[fileIndex] || [], files[fileIndex].size)
+          }));
+        if (needs.length === 0) continue;
 
+        const file = files[fileIndex];
         setTransferState(prev => ({ ...prev, currentFileIndex: fileIndex }));
 
         // Send file header
-        const fileHeader = {
+        const fileHeader = JSON.stringify({
           type: 'file-start',
           fileIndex,
           name: file.name,
           size: file.size
-        };
-        sendData(JSON.stringify(fileHeader));
-
-        while (fileOffset < file.size) {
-          if (abortControllerRef.current?.signal.aborted) break;
-
-          const chunkEnd = Math.min(fileOffset + chunkSize, file.size);
-          const chunk = file.slice(fileOffset, chunkEnd);
-          const arrayBuffer = await chunk.arrayBuffer();
-
-          // Send chunk with metadata
-          const chunkData = {
-            type: 'file-chunk',
-            fileIndex,
-            offset: fileOffset,
-            data: Array.from(new Uint8Array(arrayBuffer))
-          };
-
-          sendData(JSON.stringify(chunkData));
-          
-          fileOffset = chunkEnd;
-          transferredBytes += arrayBuffer.byteLength;
-
-          // Update progress
-          const progress = (transferredBytes / totalBytes) * 100;
-          const elapsedTime = (Date.now() - transferStartTimeRef.current) / 1000;
-          const speed = transferredBytes / elapsedTime;
-          const remainingBytes = totalBytes - transferredBytes;
-          const timeRemaining = speed > 0 ? Math.ceil(remainingBytes / speed) : 0;
-
-          setTransferState(prev => ({
-            ...prev,
-            progress,
-            speed,
-            timeRemaining,
-            bytesTransferred: transferredBytes
-          }));
+        });
+        needs.forEach(({ session }) => send(session, fileHeader));
+
+        // Hashed as it is read so file-end can carry the digest without a second read
+        const hasher = new Sha256();
+
+        // Everything at least one receiver still lacks
+        let pending: ByteRange[] = [];
+        needs.forEach(({ missing }) => missing.forEach(([start, end]) => {
+          pending = addRange(pending, start, end);
+        }));
+
+        for (const [rangeStart, rangeEnd] of pending) {
+          // Skipped bytes still count towards the digest
+          await updateFromBlob(hasher, file.slice(hasher.length, rangeStart));
+          let fileOffset = rangeStart;
+
+          while (fileOffset < rangeEnd) {
+            if (abortController.signal.aborted) break;
+            ensureLive();
+
+            const chunkEnd = Math.min(fileOffset + CHUNK_SIZE, rangeEnd);
+            const recipients = needs.filter(({ session, missing }) =>
+              !session.failed && missing.some(([start, end]) => start < chunkEnd && end > fileOffset)
+            );
+
+            // Pause while any recipient's send queue is above its high watermark.
+            // A channel that closes while waiting fails that receiver only
+            await Promise.all(recipients.map(({ session }) =>
+              session.target.waitForBuffer(abortController.signal).catch(error => {
+                if (!abortController.signal.aborted) fail(session, error);
+              })
+            ));
+            if (abortController.signal.aborted) break;
+            ensureLive();
+
+            const payload = new Uint8Array(await file.slice(fileOffset, chunkEnd).arrayBuffer());
+            hasher.update(payload);
 
-          // Small delay to prevent overwhelming the data channel
-          await new Promise(resolve => setTimeout(resolve, 1));
+            // Each receiver gets only the parts of the chunk it is missing
+            recipients.filter(({ session }) => !session.failed).forEach(({ session, missing }) => {
+              missing.forEach(([start, end]) => {
+                const from = Math.max(start, fileOffset);
+                const to = Math.min(end, chunkEnd);
+                if (from >= to) return;
+
+                send(session, encodeFrame({
+                  type: FrameType.Chunk,
+                  fileIndex,
+                  offset: from,
+                  payload: payload.subarray(from - fileOffset, to - fileOffset)
+                }));
+                session.transferred += to - from;
+              });
+            });
+
+            fileOffset = chunkEnd;
+            reportProgress();
+          }
         }
 
+        if (abortController.signal.aborted) break;
+        await updateFromBlob(hasher, file.slice(hasher.length));
+
         // Send file end marker
-        const fileEnd = {
+        const fileEnd = JSON.stringify({
           type: 'file-end',
-          fileIndex
-        };
-        sendData(JSON.stringify(fileEnd));
+          fileIndex,
+          sha256: hasher.hexDigest()
+        });
+        needs.forEach(({ session }) => send(session, fileEnd));
       }
 
-      // Send transfer complete
-      sendData(JSON.stringify({ type: 'transfer-complete' }));
+      if (abortController.signal.aborted) throw new DOMException('Transfer cancelled', 'AbortError');
+      ensureLive();
+
+      // Send transfer complete, then stay until each receiver has closed its gaps so
+      // the next batch does not start while NACKs for this one are still coming
+      await Promise.all(live().map(async session => {
+        const done = waitForDone(session.target.id, transferId, abortController.signal);
+        send(session, JSON.stringify({ type: 'transfer-complete', transferId }));
+        if (session.failed) {
+          pendingDonesRef.current.get(session.target.id)?.resolve();
+          return;
+        }
+
+        try {
+          await done;
+          updateReceiver(session.target.id, { status: 'done', progress: 100 });
+        } catch (error) {
+          if (!abortController.signal.aborted) fail(session, error);
+        }
+      }));
+      if (abortController.signal.aborted) throw new DOMException('Transfer cancelled', 'AbortError');
+      ensureLive();
 
       setTransferState(prev => ({
         ...prev,
@@ -131,14 +526,35 @@ export function useFileTransfer() {
 
     } catch (error) {
       setTransferState(prev => ({ ...prev, isTransferring: false }));
+      // Cancelling interrupts a pending buffer wait; that is not a failure
+      if (abortController.signal.aborted) return;
       throw error;
     }
-  }, []);
+  }, [waitForAck, waitForDone]);
+
+  // Sessions where either side can send queue file sets here; the other side
+  // receives one transfer at a time, so batches go out strictly one after another
+  const enqueueTransfer = useCallback((files: File[], targets: TransferTarget[]) => {
+    const generation = queueGenerationRef.current;
+    setQueuedTransfers(prev => [...prev, files]);
+
+    const run = sendQueueRef.current.then(async () => {
+      setQueuedTransfers(prev => prev.filter(queued => queued !== files));
+      if (generation !== queueGenerationRef.current) return;
+      await startTransfer(files, targets);
+    });
+    // A failed batch must not hold up the ones behind it
+    sendQueueRef.current = run.catch(() => {});
+    return run;
+  }, [startTransfer]);
 
   const cancelTransfer = useCallback(() => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
     }
+    activeTransferRef.current = null;
+    queueGenerationRef.current++;
+    setQueuedTransfers([]);
     setTransferState(prev => ({ ...prev, isTransferring: false }));
   }, []);
 
@@ -149,7 +565,12 @@ export function useFileTransfer() {
     isTransferring: transferState.isTransferring,
     currentFileIndex: transferState.currentFileIndex,
     bytesTransferred: transferState.bytesTransferred,
+    receiverProgress: transferState.receivers,
+    transferFiles: transferState.files,
+    queuedTransfers,
     startTransfer,
-    cancelTransfer
+    enqueueTransfer,
+    cancelTransfer,
+    handleTransferMessage
   };
 }
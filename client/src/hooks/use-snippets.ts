@@ -0,0 +1,108 @@
+import { useState, useCallback, useRef } from "react";
+
+// Snippets travel as a single control message, so keep them well below the
+// data channel's message size limit
+export const MAX_SNIPPET_LENGTH = 64 * 1024;
+
+export type SnippetKind = 'text' | 'url';
+
+export interface Snippet {
+  id: string;
+  kind: SnippetKind;
+  text: string;
+  direction: 'sent' | 'received';
+  timestamp: number;
+}
+
+// Only web links are offered as "open"; anything else is plain text
+export function isWebUrl(text: string) {
+  try {
+    const url = new URL(text.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+export function useSnippets() {
+  const [snippets, setSnippets] = useState<Snippet[]>([]);
+  const [autoCopy, setAutoCopy] = useState(false);
+
+  // Read from the data channel callback without recreating it
+  const autoCopyRef = useRef(autoCopy);
+  autoCopyRef.current = autoCopy;
+
+  // Returns false when the channel is closed
+  const sendSnippet = useCallback((text: string, send: (data: string) => boolean) => {
+    if (!text.trim()) {
+      throw new Error('Nothing to send');
+    }
+    if (text.length > MAX_SNIPPET_LENGTH) {
+      throw new Error(`Snippets are limited to ${MAX_SNIPPET_LENGTH / 1024} KB of text; send longer text as a file`);
+    }
+
+    const snippet: Snippet = {
+      id: crypto.randomUUID(),
+      kind: isWebUrl(text) ? 'url' : 'text',
+      text,
+      direction: 'sent',
+      timestamp: Date.now()
+    };
+
+    const sent = send(JSON.stringify({
+      type: 'snippet',
+      id: snippet.id,
+      kind: snippet.kind,
+      text: snippet.text,
+      timestamp: snippet.timestamp
+    }));
+    if (sent) {
+      setSnippets(prev => [snippet, ...prev]);
+    }
+    return sent;
+  }, []);
+
+  // Feed every control message through here; anything but a snippet or a refusal is ignored
+  const handleSnippetMessage = useCallback((message: any) => {
+    // The other device did not take it, so it is not listed as sent
+    if (message?.type === 'not-accepted' && typeof message.snippetId === 'string') {
+      setSnippets(prev => prev.filter(snippet => snippet.direction !== 'sent' || snippet.id !== message.snippetId));
+      return;
+    }
+    if (message?.type !== 'snippet' || typeof message.text !== 'string') return;
+    if (message.text.length > MAX_SNIPPET_LENGTH) {
+      console.warn('Ignoring oversized snippet');
+      return;
+    }
+
+    // The kind is re-derived here; a peer claiming "url" does not make a link openable
+    const snippet: Snippet = {
+      id: typeof message.id === 'string' ? message.id : crypto.randomUUID(),
+      kind: isWebUrl(message.text) ? 'url' : 'text',
+      text: message.text,
+      direction: 'received',
+      timestamp: Date.now()
+    };
+    setSnippets(prev => (prev.some(existing => existing.id === snippet.id) ? prev : [snippet, ...prev]));
+
+    if (autoCopyRef.current) {
+      // Browsers only allow this while the page has focus
+      navigator.clipboard?.writeText(snippet.text).catch(error => {
+        console.warn('Auto-copy failed:', error);
+      });
+    }
+  }, []);
+
+  const clearSnippets = useCallback(() => {
+    setSnippets([]);
+  }, []);
+
+  return {
+    snippets,
+    autoCopy,
+    setAutoCopy,
+    sendSnippet,
+    handleSnippetMessage,
+    clearSnippets
+  };
+}
@@ -1,97 +1,273 @@
 import { useState, useCallback, useRef } from "react";
-import { createPeerConnection, generatePairingCode } from "@/lib/webrtc";
+import { createPeerConnection, createSignaledPeerConnection, applyAnswer } from "@/lib/webrtc";
+import { SignalingClient, generateRoomCode } from "@/lib/signaling";
+import { getFlowController } from "@/lib/flow-control";
+import type { SecureChannel } from "@/lib/secure-channel";
+import type { ShortAuthString } from "@/lib/sas";
 
 interface UseWebRTCOptions {
   encryptionKey?: string;
   turnServer?: string;
+  // reply sends on the same data channel, for handshakes such as resume acks
+  onDataReceived?: (data: any, reply: (data: ArrayBuffer | string) => boolean, peerId: string) => void;
+  onSecurityError?: (error: Error) => void;
 }
 
-export function useWebRTC({ encryptionKey, turnServer }: UseWebRTCOptions = {}) {
-  const [isConnected, setIsConnected] = useState(false);
-  const [connectionState, setConnectionState] = useState<RTCPeerConnectionState>('new');
+export interface PeerState {
+  id: string;
+  label: string;
+  connectionState: RTCPeerConnectionState;
+  isConnected: boolean;
+  // Set once both peers proved they derived the same session key
+  sas: ShortAuthString | null;
+}
+
+interface PeerEntry {
+  peerConnection: RTCPeerConnection | null;
+  channel: SecureChannel | null;
+  signaling?: SignalingClient;
+}
+
+// The nonce the answer to a QR offer must echo
+interface PendingOffer {
+  peerId: string;
+  nonce: string;
+}
+
+// A sender can pair with several receivers, one peer connection each;
+// a receiver only ever has one peer
+export function useWebRTC({ encryptionKey, turnServer, onDataReceived, onSecurityError }: UseWebRTCOptions = {}) {
+  const [peers, setPeers] = useState<PeerState[]>([]);
   const [localPeerCode, setLocalPeerCode] = useState('');
-  const peerConnectionRef = useRef<RTCPeerConnection | null>(null);
-  const dataChannelRef = useRef<RTCDataChannel | null>(null);
+  const [roomCode, setRoomCode] = useState('');
+  const peersRef = useRef(new Map<string, PeerEntry>());
+  const pendingOfferRef = useRef<PendingOffer | null>(null);
+  const peerCountRef = useRef(0);
+
+  // Keep the latest handler without recreating the peer connection callbacks
+  const onDataReceivedRef = useRef(onDataReceived);
+  onDataReceivedRef.current = onDataReceived;
+  const onSecurityErrorRef = useRef(onSecurityError);
+  onSecurityErrorRef.current = onSecurityError;
 
+  const updatePeer = useCallback((peerId: string, update: Partial<PeerState>) => {
+    setPeers(prev => prev.map(peer => (peer.id === peerId ? { ...peer, ...update } : peer)));
+  }, []);
+
+  // Strings are encrypted with the session key; sends stay in call order
+  const sendData = useCallback((peerId: string, data: ArrayBuffer | string) => {
+    const channel = peersRef.current.get(peerId)?.channel;
+    return channel ? channel.send(data) : false;
+  }, []);
+
+  // Backpressure: resolves once the peer's data channel has drained below its low watermark
+  const waitForBuffer = useCallback(async (peerId: string, signal?: AbortSignal) => {
+    const channel = peersRef.current.get(peerId)?.channel;
+    if (channel) {
+      // Queued (still encrypting) messages count towards the backlog too
+      await channel.flushed();
+      await getFlowController(channel.channel).ready(signal);
+    }
+  }, []);
+
+  // Registers a peer and returns the callbacks that keep its state up to date
+  const addPeer = useCallback(() => {
+    const peerId = `peer-${++peerCountRef.current}`;
+    peersRef.current.set(peerId, { peerConnection: null, channel: null });
+    setPeers(prev => [...prev, {
+      id: peerId,
+      label: `Receiver ${peerCountRef.current}`,
+      connectionState: 'new',
+      isConnected: false,
+      sas: null
+    }]);
+
+    const callbacks = {
+      encryptionKey,
+      turnServer,
+      onConnectionStateChange: (connectionState: RTCPeerConnectionState) => updatePeer(peerId, { connectionState }),
+      onConnected: () => updatePeer(peerId, { isConnected: true }),
+      onDisconnected: () => updatePeer(peerId, { isConnected: false }),
+      onDataChannel: (channel: SecureChannel) => {
+        const entry = peersRef.current.get(peerId);
+        if (entry) entry.channel = channel;
+        updatePeer(peerId, { sas: null });
+      },
+      onDataReceived: (data: any) => {
+        onDataReceivedRef.current?.(data, reply => sendData(peerId, reply), peerId);
+      },
+      onSecured: (sas: ShortAuthString) => updatePeer(peerId, { sas }),
+      onSecurityError: (error: Error) => {
+        updatePeer(peerId, { sas: null });
+        onSecurityErrorRef.current?.(error);
+      }
+    };
+
+    return { peerId, callbacks };
+  }, [encryptionKey, turnServer, updatePeer, sendData]);
+
+  const disconnectPeer = useCallback((peerId: string) => {
+    const entry = peersRef.current.get(peerId);
+    if (entry) {
+      entry.signaling?.close();
+      entry.peerConnection?.close();
+      entry.channel?.close();
+      peersRef.current.delete(peerId);
+    }
+    if (pendingOfferRef.current?.peerId === peerId) {
+      pendingOfferRef.current = null;
+    }
+    setPeers(prev => prev.filter(peer => peer.id !== peerId));
+  }, []);
+
+  const disconnect = useCallback(() => {
+    Array.from(peersRef.current.keys()).forEach(disconnectPeer);
+    pendingOfferRef.current = null;
+    setLocalPeerCode('');
+    setRoomCode('');
+  }, [disconnectPeer]);
+
+  // Each call adds another receiver; an offer nobody answered yet is replaced
   const createOffer = useCallback(async () => {
+    if (pendingOfferRef.current) {
+      disconnectPeer(pendingOfferRef.current.peerId);
+    }
+
+    const { peerId, callbacks } = addPeer();
     try {
-      const { peerConnection, dataChannel, offerCode } = await createPeerConnection({
+      const { peerConnection, offerCode, offerNonce } = await createPeerConnection({
         isOfferer: true,
-        encryptionKey,
-        turnServer,
-        onConnectionStateChange: setConnectionState,
-        onConnected: () => setIsConnected(true),
-        onDisconnected: () => setIsConnected(false)
+        ...callbacks
       });
 
-      peerConnectionRef.current = peerConnection;
-      dataChannelRef.current = dataChannel;
+      peersRef.current.get(peerId)!.peerConnection = peerConnection;
+      pendingOfferRef.current = offerNonce ? { peerId, nonce: offerNonce } : null;
       setLocalPeerCode(offerCode || '');
-      
+
       return offerCode;
     } catch (error) {
       console.error('Failed to create offer:', error);
+      disconnectPeer(peerId);
       throw error;
     }
-  }, [encryptionKey, turnServer]);
+  }, [addPeer, disconnectPeer]);
+
+  // Withdraw the offer that is still waiting for an answer
+  const cancelOffer = useCallback(() => {
+    if (pendingOfferRef.current) {
+      disconnectPeer(pendingOfferRef.current.peerId);
+    }
+    setLocalPeerCode('');
+  }, [disconnectPeer]);
 
-  const connect = useCallback(async (pairingCode: string) => {
+  // passcode overrides the configured one, e.g. when the user was just prompted for it
+  const connect = useCallback(async (pairingCode: string, passcode = encryptionKey) => {
+    disconnect();
+
+    const { peerId, callbacks } = addPeer();
     try {
-      const { peerConnection, dataChannel } = await createPeerConnection({
+      const { peerConnection, answerCode } = await createPeerConnection({
         isOfferer: false,
         pairingCode,
-        encryptionKey,
-        turnServer,
-        onConnectionStateChange: setConnectionState,
-        onConnected: () => setIsConnected(true),
-        onDisconnected: () => setIsConnected(false)
+        ...callbacks,
+        encryptionKey: passcode
       });
 
-      peerConnectionRef.current = peerConnection;
-      dataChannelRef.current = dataChannel;
+      peersRef.current.get(peerId)!.peerConnection = peerConnection;
+      setLocalPeerCode(answerCode || '');
+
+      return answerCode;
     } catch (error) {
       console.error('Failed to connect:', error);
+      disconnectPeer(peerId);
       throw error;
     }
-  }, [encryptionKey, turnServer]);
-
-  const sendData = useCallback((data: ArrayBuffer | string) => {
-    if (dataChannelRef.current && dataChannelRef.current.readyState === 'open') {
-      if (typeof data === 'string') {
-        dataChannelRef.current.send(data);
-      } else {
-        dataChannelRef.current.send(data);
-      }
-      return true;
+  }, [encryptionKey, addPeer, disconnect, disconnectPeer]);
+
+  // Signaling mode: both peers meet in a server room instead of trading QR codes.
+  // Rooms hold two peers, so this always replaces any existing connection.
+  const joinSignalingRoom = useCallback(async (code: string, isOfferer: boolean) => {
+    disconnect();
+
+    const { peerId, callbacks } = addPeer();
+    try {
+      const { peerConnection, signaling } = await createSignaledPeerConnection({
+        isOfferer,
+        roomCode: code,
+        ...callbacks,
+        // The other peer left; wait for it (or another) to join again
+        onPeerConnection: (replacement) => {
+          const entry = peersRef.current.get(peerId);
+          if (entry) entry.peerConnection = replacement;
+        },
+        onPeerLeft: () => updatePeer(peerId, { isConnected: false, connectionState: 'new', sas: null })
+      });
+
+      const entry = peersRef.current.get(peerId)!;
+      entry.peerConnection = peerConnection;
+      entry.signaling = signaling;
+      setRoomCode(code);
+    } catch (error) {
+      console.error('Failed to join signaling room:', error);
+      disconnectPeer(peerId);
+      throw error;
     }
-    return false;
-  }, []);
+  }, [addPeer, disconnect, disconnectPeer, updatePeer]);
+
+  const hostRoom = useCallback(async () => {
+    const code = generateRoomCode();
+    await joinSignalingRoom(code, true);
+    return code;
+  }, [joinSignalingRoom]);
+
+  const joinRoom = useCallback(async (code: string) => {
+    await joinSignalingRoom(code.trim().toUpperCase(), false);
+  }, [joinSignalingRoom]);
 
   const acceptOffer = useCallback(async (offerCode: string) => {
     return connect(offerCode);
   }, [connect]);
 
-  const disconnect = useCallback(() => {
-    if (peerConnectionRef.current) {
-      peerConnectionRef.current.close();
-      peerConnectionRef.current = null;
+  const acceptAnswer = useCallback(async (answerCode: string) => {
+    const pending = pendingOfferRef.current;
+    const peerConnection = pending && peersRef.current.get(pending.peerId)?.peerConnection;
+    if (!pending || !peerConnection) {
+      throw new Error('No pending offer to answer');
     }
-    if (dataChannelRef.current) {
-      dataChannelRef.current.close();
-      dataChannelRef.current = null;
+
+    try {
+      await applyAnswer(peerConnection, answerCode, {
+        offerNonce: pending.nonce,
+        passcode: encryptionKey
+      });
+      pendingOfferRef.current = null;
+      setLocalPeerCode('');
+    } catch (error) {
+      console.error('Failed to accept answer:', error);
+      throw error;
     }
-    setIsConnected(false);
-    setConnectionState('closed');
-  }, []);
+  }, [encryptionKey]);
+
+  // The receiver's single peer, or the first receiver on the sender side
+  const primaryPeer = peers[0];
 
   return {
-    isConnected,
-    connectionState,
+    peers,
+    isConnected: peers.some(peer => peer.isConnected),
+    sas: primaryPeer?.sas ?? null,
+    connectionState: primaryPeer?.connectionState ?? 'new',
     localPeerCode,
+    roomCode,
     createOffer,
+    cancelOffer,
     connect,
     acceptOffer,
+    acceptAnswer,
+    hostRoom,
+    joinRoom,
     sendData,
+    waitForBuffer,
+    disconnectPeer,
     disconnect
   };
 }
@@ -0,0 +1,63 @@
+// Sorted, non-overlapping half-open byte ranges [start, end)
+export type ByteRange = [number, number];
+
+export function addRange(ranges: ByteRange[], start: number, end: number): ByteRange[] {
+  if (end <= start) return ranges;
+
+  const merged: ByteRange[] = [];
+  let inserted = false;
+
+  ranges.forEach(([rangeStart, rangeEnd]) => {
+    if (rangeEnd < start) {
+      merged.push([rangeStart, rangeEnd]);
+    } else if (rangeStart > end) {
+      if (!inserted) {
+        merged.push([start, end]);
+        inserted = true;
+      }
+      merged.push([rangeStart, rangeEnd]);
+    } else {
+      // Overlapping or touching: widen the pending range
+      start = Math.min(start, rangeStart);
+      end = Math.max(end, rangeEnd);
+    }
+  });
+
+  if (!inserted) {
+    merged.push([start, end]);
+  }
+
+  return merged;
+}
+
+// Gaps in [0, size) not covered by any range
+export function missingRanges(ranges: ByteRange[], size: number): ByteRange[] {
+  const missing: ByteRange[] = [];
+  let cursor = 0;
+
+  ranges.forEach(([start, end]) => {
+    if (start > cursor) {
+      missing.push([cursor, Math.min(start, size)]);
+    }
+    cursor = Math.max(cursor, end);
+  });
+
+  if (cursor < size) {
+    missing.push([cursor, size]);
+  }
+
+  return missing.filter(([start, end]) => end > start);
+}
+
+export function coveredBytes(ranges: ByteRange[]): number {
+  return ranges.reduce((sum, [start, end]) => sum + (end - start), 0);
+}
+
+export function isRangeComplete(ranges: ByteRange[], size: number): boolean {
+  return missingRanges(ranges, size).length === 0;
+}
+
+// True when [start, end) lies entirely inside one range
+export function isRangeCovered(ranges: ByteRange[], start: number, end: number): boolean {
+  return ranges.some(([rangeStart, rangeEnd]) => rangeStart <= start && rangeEnd >= end);
+}
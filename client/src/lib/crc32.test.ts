@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { crc32 } from "./crc32";
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+
+  it("is zero for no data", () => {
+    expect(crc32(new Uint8Array(0))).toBe(0);
+  });
+
+  it("gives the same result when fed in pieces", () => {
+    const data = new TextEncoder().encode("The quick brown fox jumps over the lazy dog");
+    const whole = crc32(data);
+    const pieces = crc32(data.subarray(10), crc32(data.subarray(0, 10)));
+
+    expect(pieces).toBe(whole);
+    expect(whole).toBe(0x414fa339);
+  });
+});
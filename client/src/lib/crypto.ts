@@ -1,64 +1,142 @@
-// Simple encryption utilities using Web Crypto API
-export async function generateKey(password: string): Promise<CryptoKey> {
-  const encoder = new TextEncoder();
+// Session encryption using the Web Crypto API.
+// Each connection runs an ephemeral ECDH P-256 exchange over the data channel,
+// each side committing to its key share before either reveals it;
+// HKDF turns the shared secret (plus the optional passcode) into one AES-GCM
+// key per session, salted with random values from both peers, and into the
+// verification bytes behind the short authentication string.
+
+export interface KeyShare {
+  // Raw P-256 public key and 16 random salt bytes, base64 encoded
+  publicKey: string;
+  salt: string;
+}
+
+export interface LocalKeyShare extends KeyShare {
+  privateKey: CryptoKey;
+}
+
+export interface SessionSecrets {
+  key: CryptoKey;
+  // Never sent; both peers compare a short string derived from it
+  verification: Uint8Array;
+}
+
+interface SessionKeyOptions {
+  isOfferer: boolean;
+  passcode?: string;
+}
+
+const SESSION_INFO = 'beamshare-v1 session key';
+const VERIFICATION_INFO = 'beamshare-v1 verification';
+const KEY_COMMITMENT_LABEL = 'beamshare-v1 key commitment';
+
+export async function createKeyShare(): Promise<LocalKeyShare> {
+  const keyPair = await crypto.subtle.generateKey(
+    { name: 'ECDH', namedCurve: 'P-256' },
+    false,
+    ['deriveBits']
+  );
+  const publicKey = await crypto.subtle.exportKey('raw', keyPair.publicKey);
+
+  return {
+    privateKey: keyPair.privateKey,
+    publicKey: toBase64(new Uint8Array(publicKey)),
+    salt: toBase64(crypto.getRandomValues(new Uint8Array(16)))
+  };
+}
+
+// Hash a peer sends before its share. Without it, someone relaying the channel
+// could wait for one side's share and then try keys until both SAS codes match
+export async function commitKeyShare({ publicKey, salt }: KeyShare): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(`${KEY_COMMITMENT_LABEL}:${publicKey}:${salt}`)
+  );
+  return toBase64(new Uint8Array(digest));
+}
+
+export async function deriveSessionSecrets(
+  local: LocalKeyShare,
+  remote: KeyShare,
+  { isOfferer, passcode }: SessionKeyOptions
+): Promise<SessionSecrets> {
+  const remotePublicKey = await crypto.subtle.importKey(
+    'raw',
+    fromBase64(remote.publicKey),
+    { name: 'ECDH', namedCurve: 'P-256' },
+    false,
+    []
+  );
+  const sharedSecret = await crypto.subtle.deriveBits(
+    { name: 'ECDH', public: remotePublicKey },
+    local.privateKey,
+    256
+  );
+
+  // Without the passcode an attacker who relayed the pairing codes still cannot derive the key
+  const passcodeDigest = passcode
+    ? new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(passcode)))
+    : new Uint8Array(0);
+
+  // Both sides must feed HKDF the same bytes, so order everything offerer first
+  const [offerer, answerer] = isOfferer ? [local, remote] : [remote, local];
+
   const keyMaterial = await crypto.subtle.importKey(
     'raw',
-    encoder.encode(password),
-    { name: 'PBKDF2' },
+    concatBytes(new Uint8Array(sharedSecret), passcodeDigest),
+    'HKDF',
     false,
-    ['deriveBits', 'deriveKey']
+    ['deriveKey', 'deriveBits']
   );
 
-  return crypto.subtle.deriveKey(
-    {
-      name: 'PBKDF2',
-      salt: encoder.encode('beamshare-salt'),
-      iterations: 100000,
-      hash: 'SHA-256'
-    },
+  const salt = concatBytes(fromBase64(offerer.salt), fromBase64(answerer.salt));
+  // Binding both public keys ties the outputs to this exact exchange
+  const transcript = concatBytes(fromBase64(offerer.publicKey), fromBase64(answerer.publicKey));
+  const encoder = new TextEncoder();
+
+  const key = await crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: concatBytes(encoder.encode(SESSION_INFO), transcript) },
     keyMaterial,
     { name: 'AES-GCM', length: 256 },
     false,
     ['encrypt', 'decrypt']
   );
-}
 
-export async function encryptData(data: string, password: string): Promise<string> {
-  const key = await generateKey(password);
-  const encoder = new TextEncoder();
-  const iv = crypto.getRandomValues(new Uint8Array(12));
-  
-  const encrypted = await crypto.subtle.encrypt(
-    { name: 'AES-GCM', iv },
-    key,
-    encoder.encode(data)
+  const verification = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: concatBytes(encoder.encode(VERIFICATION_INFO), transcript) },
+    keyMaterial,
+    256
   );
 
-  const combined = new Uint8Array(iv.length + encrypted.byteLength);
-  combined.set(iv);
-  combined.set(new Uint8Array(encrypted), iv.length);
-
-  return btoa(String.fromCharCode(...Array.from(combined)));
+  return { key, verification: new Uint8Array(verification) };
 }
 
-export async function decryptData(encryptedData: string, password: string): Promise<string> {
-  const key = await generateKey(password);
-  const combined = new Uint8Array(
-    atob(encryptedData)
-      .split('')
-      .map(char => char.charCodeAt(0))
-  );
-
-  const iv = combined.slice(0, 12);
-  const encrypted = combined.slice(12);
+export function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+}
 
-  const decrypted = await crypto.subtle.decrypt(
-    { name: 'AES-GCM', iv },
-    key,
-    encrypted
-  );
+// Converted in slices; spreading a large array into fromCharCode overflows the stack
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return btoa(binary);
+}
 
-  return new TextDecoder().decode(decrypted);
+export function fromBase64(encoded: string): Uint8Array {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
 }
 
 export function generateSecureId(): string {
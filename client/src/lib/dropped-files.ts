@@ -0,0 +1,59 @@
+// Files from a drag and drop, including the contents of dropped folders.
+// DataTransfer.files lists a dropped folder as an empty pseudo-file (or not at
+// all), so folders are walked through the entries API instead.
+
+// Lets getRelativePath() see the folder a dropped file came from
+function withRelativePath(file: File, path: string): File {
+  Object.defineProperty(file, 'webkitRelativePath', { value: path });
+  return file;
+}
+
+function readFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+// readEntries returns a directory in batches; an empty batch marks the end
+async function readAllEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+async function collectEntry(entry: FileSystemEntry): Promise<File[]> {
+  // fullPath starts with '/' at the dropped item
+  const path = entry.fullPath.replace(/^\/+/, '') || entry.name;
+
+  if (entry.isFile) {
+    const file = await readFile(entry as FileSystemFileEntry);
+    return [withRelativePath(file, path)];
+  }
+
+  if (entry.isDirectory) {
+    const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+    const nested = await Promise.all(children.map(collectEntry));
+    return nested.flat();
+  }
+
+  return [];
+}
+
+// Must be called synchronously from the drop handler: the items are cleared
+// once the event finishes, so entries are taken before the first await
+export function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  // Browsers without the entries API only get the flat file list
+  if (entries.length === 0) {
+    return Promise.resolve(Array.from(dataTransfer.files));
+  }
+
+  return Promise.all(entries.map(collectEntry)).then(nested => nested.flat());
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { sanitizeRelativePath } from "./file-paths";
+
+describe("sanitizeRelativePath", () => {
+  it("keeps ordinary folder paths", () => {
+    expect(sanitizeRelativePath("photos/2024/beach.jpg")).toBe("photos/2024/beach.jpg");
+  });
+
+  it("never climbs out of the save folder", () => {
+    expect(sanitizeRelativePath("../../etc/passwd")).toBe("etc/passwd");
+    expect(sanitizeRelativePath("photos/../../../secret.txt")).toBe("photos/secret.txt");
+    expect(sanitizeRelativePath("./a/./b/..")).toBe("a/b");
+    expect(sanitizeRelativePath("..")).toBe("file");
+    expect(sanitizeRelativePath(". . ./...")).toBe("file");
+  });
+
+  it("turns absolute paths into relative ones", () => {
+    expect(sanitizeRelativePath("/etc/passwd")).toBe("etc/passwd");
+    expect(sanitizeRelativePath("//server/share/report.pdf")).toBe("server/share/report.pdf");
+  });
+
+  it("splits on backslashes and drops drive letters", () => {
+    expect(sanitizeRelativePath("C:\\Windows\\System32\\drivers")).toBe("Windows/System32/drivers");
+    expect(sanitizeRelativePath("..\\..\\boot.ini")).toBe("boot.ini");
+    expect(sanitizeRelativePath("\\\\server\\share\\a.txt")).toBe("server/share/a.txt");
+    // Drive-relative "C:name" is not a drive root; the colon is replaced instead
+    expect(sanitizeRelativePath("C:evil.txt")).toBe("C_evil.txt");
+  });
+
+  it("replaces NUL and control characters", () => {
+    expect(sanitizeRelativePath("a\u0000b/c\u0007d\u001f.txt")).toBe("a_b/c_d_.txt");
+    expect(sanitizeRelativePath("..\u0000/x")).toBe(".._/x");
+  });
+
+  it("defuses reserved Windows names in every segment", () => {
+    expect(sanitizeRelativePath("con/aux.txt")).toBe("_con/_aux.txt");
+    expect(sanitizeRelativePath("LPT1")).toBe("_LPT1");
+  });
+
+  it("shortens over-long segments", () => {
+    const path = sanitizeRelativePath(`${"d".repeat(400)}/${"n".repeat(400)}.txt`);
+    const [folder, name] = path.split("/");
+
+    expect(new TextEncoder().encode(folder).byteLength).toBe(255);
+    expect(new TextEncoder().encode(name).byteLength).toBe(255);
+    expect(name.endsWith(".txt")).toBe(true);
+  });
+
+  it("falls back when nothing usable is left", () => {
+    expect(sanitizeRelativePath("", "received")).toBe("received");
+    expect(sanitizeRelativePath("/ / /")).toBe("file");
+  });
+});
@@ -0,0 +1,86 @@
+// Relative paths of files shared from a folder.
+// Paths travel '/'-separated in the transfer metadata; whatever a peer sends
+// is reduced to plain path segments before anything is created on disk.
+
+import { sanitizeFileName } from './filename-policy';
+
+// Path of a file inside the folder it was picked from, or just its name
+export function getRelativePath(file: File): string {
+  return file.webkitRelativePath || file.name;
+}
+
+// Empty, '.' and '..' segments, leading slashes and drive letters are dropped,
+// so the result always stays inside the folder it is saved to. Each segment is
+// then made a valid file name on every platform.
+export function sanitizeRelativePath(path: string, fallbackName = 'file'): string {
+  const segments = String(path)
+    .split(/[\\/]+/)
+    .map(segment => segment.trim())
+    .filter(segment => segment !== '' && segment !== '.' && segment !== '..');
+
+  // "C:" left over from a Windows absolute path
+  if (segments.length > 0 && /^[a-zA-Z]:$/.test(segments[0])) {
+    segments.shift();
+  }
+
+  const names = segments
+    .map(segment => sanitizeFileName(segment, ''))
+    .filter(segment => segment !== '');
+
+  return names.length > 0 ? names.join('/') : fallbackName;
+}
+
+export function splitPath(path: string): { folders: string[]; name: string } {
+  const segments = path.split('/');
+  const name = segments.pop() || '';
+  return { folders: segments, name };
+}
+
+export function baseName(path: string): string {
+  return splitPath(path).name;
+}
+
+export interface FileTreeNode {
+  name: string;
+  path: string;
+  // Total size of everything below a folder
+  size: number;
+  // Set on files: their position in the flat selection
+  fileIndex?: number;
+  children: FileTreeNode[];
+}
+
+// Folder tree of a flat file selection, keyed by each file's relative path
+export function buildFileTree(files: File[]): FileTreeNode {
+  const root: FileTreeNode = { name: '', path: '', size: 0, children: [] };
+  const folders = new Map<string, FileTreeNode>([['', root]]);
+
+  files.forEach((file, fileIndex) => {
+    const path = sanitizeRelativePath(getRelativePath(file));
+    const { folders: parents, name } = splitPath(path);
+
+    let parent = root;
+    root.size += file.size;
+    parents.forEach(folderName => {
+      const folderPath = parent.path ? `${parent.path}/${folderName}` : folderName;
+      let folder = folders.get(folderPath);
+      if (!folder) {
+        folder = { name: folderName, path: folderPath, size: 0, children: [] };
+        folders.set(folderPath, folder);
+        parent.children.push(folder);
+      }
+      folder.size += file.size;
+      parent = folder;
+    });
+
+    parent.children.push({ name, path, size: file.size, fileIndex, children: [] });
+  });
+
+  return root;
+}
+
+// Indices of every file at or below a node
+export function collectFileIndices(node: FileTreeNode): number[] {
+  if (node.fileIndex !== undefined) return [node.fileIndex];
+  return node.children.flatMap(collectFileIndices);
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { getAlternativeName, sanitizeFileName } from "./filename-policy";
+
+const byteLength = (text: string) => new TextEncoder().encode(text).byteLength;
+
+describe("sanitizeFileName", () => {
+  it("replaces characters Windows and macOS refuse", () => {
+    expect(sanitizeFileName('a<b>c:d"e/f\\g|h?i*j.txt')).toBe("a_b_c_d_e_f_g_h_i_j.txt");
+    expect(sanitizeFileName("tab\there\u007f")).toBe("tab_here_");
+  });
+
+  it("drops trailing dots and spaces", () => {
+    expect(sanitizeFileName("report.  ")).toBe("report");
+    expect(sanitizeFileName(" ... ")).toBe("file");
+  });
+
+  it("prefixes reserved device names, with or without an extension", () => {
+    expect(sanitizeFileName("CON")).toBe("_CON");
+    expect(sanitizeFileName("nul.txt")).toBe("_nul.txt");
+    expect(sanitizeFileName("com1.tar.gz")).toBe("_com1.tar.gz");
+    expect(sanitizeFileName("console.txt")).toBe("console.txt");
+  });
+
+  it("keeps the extension when shortening to 255 bytes", () => {
+    const name = sanitizeFileName(`${"é".repeat(200)}.pdf`);
+
+    expect(byteLength(name)).toBeLessThanOrEqual(255);
+    expect(name.endsWith(".pdf")).toBe(true);
+    // Two-byte characters are never cut in half
+    expect(name).toBe(`${"é".repeat(125)}.pdf`);
+  });
+
+  it("returns the fallback for empty names", () => {
+    expect(sanitizeFileName("", "unnamed")).toBe("unnamed");
+  });
+});
+
+describe("getAlternativeName", () => {
+  it("numbers repeated names before the extension", () => {
+    expect(getAlternativeName("report.pdf", 1)).toBe("report (1).pdf");
+    expect(getAlternativeName("report.pdf", 12)).toBe("report (12).pdf");
+    expect(getAlternativeName("archive.tar.gz", 2)).toBe("archive.tar (2).gz");
+  });
+
+  it("treats a leading dot as part of the name", () => {
+    expect(getAlternativeName(".bashrc", 1)).toBe(".bashrc (1)");
+    expect(getAlternativeName("README", 3)).toBe("README (3)");
+  });
+
+  it("stays within 255 bytes for long names", () => {
+    const name = getAlternativeName(`${"a".repeat(251)}.txt`, 100);
+
+    expect(byteLength(name)).toBe(255);
+    expect(name.endsWith(" (100).txt")).toBe(true);
+  });
+});
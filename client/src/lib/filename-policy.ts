@@ -0,0 +1,78 @@
+// Rules for the names received files are saved under.
+// Names come from the peer, so they are cleaned of anything Windows or macOS
+// refuse, and a policy decides what happens when a file already exists.
+
+// What to do when the target name is taken; 'ask' prompts the user per file
+export type CollisionPolicy = 'rename' | 'overwrite' | 'skip' | 'ask';
+export type CollisionChoice = Exclude<CollisionPolicy, 'ask'>;
+
+export const COLLISION_POLICIES: { value: CollisionPolicy; label: string }[] = [
+  { value: 'rename', label: 'Keep both (rename the new file)' },
+  { value: 'overwrite', label: 'Replace the existing file' },
+  { value: 'skip', label: 'Skip the new file' },
+  { value: 'ask', label: 'Ask every time' }
+];
+
+// Reserved on Windows (< > : " / \ | ? *), ':' on macOS, plus control characters
+const RESERVED_CHARACTERS = /[<>:"/\\|?*\u0000-\u001f\u007f]/g;
+// Windows device names, which stay reserved with any extension ("con.txt")
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[0-9¹²³]|lpt[0-9¹²³])(\..*)?$/i;
+// Most file systems limit a name to 255 bytes
+const MAX_NAME_BYTES = 255;
+// Longer suffixes are not treated as an extension worth keeping when truncating
+const MAX_EXTENSION_LENGTH = 16;
+
+function splitExtension(name: string) {
+  const dot = name.lastIndexOf('.');
+  // A leading dot marks a hidden file, not an extension
+  if (dot <= 0 || name.length - dot > MAX_EXTENSION_LENGTH) {
+    return { stem: name, extension: '' };
+  }
+  return { stem: name.slice(0, dot), extension: name.slice(dot) };
+}
+
+// Cuts whole code points so a character is never split
+function truncateBytes(text: string, budget: number): string {
+  const encoder = new TextEncoder();
+  let truncated = '';
+  let bytes = 0;
+  for (const char of Array.from(text)) {
+    const size = encoder.encode(char).byteLength;
+    if (bytes + size > budget) break;
+    truncated += char;
+    bytes += size;
+  }
+  return truncated;
+}
+
+// Shortens the stem and keeps the extension
+function fitName(stem: string, extension: string): string {
+  const encoder = new TextEncoder();
+  const budget = MAX_NAME_BYTES - encoder.encode(extension).byteLength;
+  return truncateBytes(stem, budget) + extension;
+}
+
+// Returns fallback when nothing usable is left
+export function sanitizeFileName(name: string, fallback = 'file'): string {
+  let clean = String(name)
+    .normalize('NFC')
+    .replace(RESERVED_CHARACTERS, '_')
+    .trim()
+    // Windows drops trailing dots and spaces, so "a." and "a" would collide
+    .replace(/[. ]+$/, '');
+
+  if (!clean) return fallback;
+  if (RESERVED_NAMES.test(clean)) {
+    clean = `_${clean}`;
+  }
+  if (new TextEncoder().encode(clean).byteLength <= MAX_NAME_BYTES) return clean;
+
+  const { stem, extension } = splitExtension(clean);
+  return fitName(stem, extension);
+}
+
+// "report.pdf" -> "report (1).pdf", the way browsers name repeated downloads
+export function getAlternativeName(name: string, attempt: number): string {
+  const { stem, extension } = splitExtension(name);
+  return fitName(stem, ` (${attempt})${extension}`);
+}
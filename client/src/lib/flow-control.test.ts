@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { FlowController } from "./flow-control";
+
+const watermarks = { high: 1000, low: 500 };
+
+// Just enough of RTCDataChannel for the flow controller
+class FakeChannel extends EventTarget {
+  readyState: RTCDataChannelState = "open";
+  bufferedAmount = 0;
+  bufferedAmountLowThreshold = 0;
+}
+
+function createController(channel: FakeChannel) {
+  return new FlowController(channel as unknown as RTCDataChannel, watermarks);
+}
+
+describe("FlowController", () => {
+  it("resolves at once while the buffer is below the high watermark", async () => {
+    const channel = new FakeChannel();
+    channel.bufferedAmount = 1000;
+
+    await expect(createController(channel).ready()).resolves.toBeUndefined();
+    expect(channel.bufferedAmountLowThreshold).toBe(500);
+  });
+
+  it("waits for bufferedamountlow once the buffer is full", async () => {
+    const channel = new FakeChannel();
+    channel.bufferedAmount = 2000;
+
+    let resolved = false;
+    const ready = createController(channel).ready().then(() => {
+      resolved = true;
+    });
+    await Promise.resolve();
+    expect(resolved).toBe(false);
+
+    channel.bufferedAmount = 400;
+    channel.dispatchEvent(new Event("bufferedamountlow"));
+    await ready;
+    expect(resolved).toBe(true);
+  });
+
+  it("rejects when the channel closes while waiting", async () => {
+    const channel = new FakeChannel();
+    channel.bufferedAmount = 2000;
+
+    const ready = createController(channel).ready();
+    channel.readyState = "closed";
+    channel.dispatchEvent(new Event("close"));
+
+    await expect(ready).rejects.toThrow(/closed/);
+  });
+
+  it("rejects at once when the channel is already closing with a full buffer", async () => {
+    const channel = new FakeChannel();
+    channel.bufferedAmount = 2000;
+    channel.readyState = "closing";
+
+    await expect(createController(channel).ready()).rejects.toThrow(/closed/);
+  });
+
+  it("rejects at once when the signal is already aborted", async () => {
+    const channel = new FakeChannel();
+    channel.bufferedAmount = 2000;
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(createController(channel).ready(controller.signal)).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
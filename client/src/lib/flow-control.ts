@@ -0,0 +1,79 @@
+// Backpressure for RTCDataChannel sends.
+// Instead of polling bufferedAmount, pause once the send queue passes a high
+// watermark and resume on the channel's 'bufferedamountlow' event.
+import { PerformanceOptimizer } from './performance';
+
+export interface Watermarks {
+  high: number;
+  low: number;
+}
+
+// Chromium closes a data channel whose send queue grows past 16MB
+const MAX_SAFE_BUFFERED_AMOUNT = 8 * 1024 * 1024;
+
+// Derive watermarks from the device's buffer budget, capped below the channel limit
+export function getWatermarks(): Watermarks {
+  const bufferSize = PerformanceOptimizer.getInstance().getOptimalBufferSize();
+  const high = Math.min(bufferSize / 8, MAX_SAFE_BUFFERED_AMOUNT);
+  return { high, low: high / 2 };
+}
+
+export class FlowController {
+  private readonly watermarks: Watermarks;
+
+  constructor(private readonly channel: RTCDataChannel, watermarks: Watermarks = getWatermarks()) {
+    this.watermarks = watermarks;
+    this.channel.bufferedAmountLowThreshold = watermarks.low;
+  }
+
+  // Resolves as soon as the channel can take more data
+  ready(signal?: AbortSignal): Promise<void> {
+    // Neither event below would ever fire for these, so settle right away
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('Transfer aborted', 'AbortError'));
+    }
+    if (this.channel.readyState !== 'open') {
+      return Promise.reject(new Error('Data channel closed while waiting to send'));
+    }
+
+    if (this.channel.bufferedAmount <= this.watermarks.high) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        this.channel.removeEventListener('bufferedamountlow', onLow);
+        this.channel.removeEventListener('close', onClose);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onLow = () => {
+        cleanup();
+        resolve();
+      };
+      const onClose = () => {
+        cleanup();
+        reject(new Error('Data channel closed while waiting to send'));
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(new DOMException('Transfer aborted', 'AbortError'));
+      };
+
+      this.channel.addEventListener('bufferedamountlow', onLow);
+      this.channel.addEventListener('close', onClose);
+      signal?.addEventListener('abort', onAbort);
+    });
+  }
+}
+
+// Flow controllers are per channel; reuse one so thresholds are set only once
+const controllers = new WeakMap<RTCDataChannel, FlowController>();
+
+export function getFlowController(channel: RTCDataChannel): FlowController {
+  let controller = controllers.get(channel);
+  if (!controller) {
+    controller = new FlowController(channel);
+    controllers.set(channel, controller);
+  }
+  return controller;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { FrameCipher } from "./frame-cipher";
+import { FRAME_HEADER_SIZE, FrameType, decodeFrame, encodeFrame } from "./frame-protocol";
+
+async function createPair() {
+  const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+  return { offerer: new FrameCipher(key, true), answerer: new FrameCipher(key, false) };
+}
+
+function chunk(offset: number, ...values: number[]) {
+  return encodeFrame({ type: FrameType.Chunk, fileIndex: 2, offset, payload: new Uint8Array(values) });
+}
+
+describe("frame cipher", () => {
+  it("opens what the other side sealed", async () => {
+    const { offerer, answerer } = await createPair();
+    const result = await answerer.open(await offerer.seal(chunk(4096, 10, 20, 30)));
+
+    expect(result.status).toBe("ok");
+    if (result.status !== "ok") return;
+    const frame = decodeFrame(result.frame);
+    expect(frame.offset).toBe(4096);
+    expect(frame.encrypted).toBe(false);
+    expect(Array.from(frame.payload)).toEqual([10, 20, 30]);
+  });
+
+  it("drops replayed and reordered frames", async () => {
+    const { offerer, answerer } = await createPair();
+    const first = await offerer.seal(chunk(0, 1));
+    const second = await offerer.seal(chunk(1, 2));
+
+    expect((await answerer.open(second)).status).toBe("ok");
+    expect((await answerer.open(first)).status).toBe("replayed");
+    expect((await answerer.open(second)).status).toBe("replayed");
+  });
+
+  it("rejects a frame whose header was changed", async () => {
+    const { offerer, answerer } = await createPair();
+    const sealed = await offerer.seal(chunk(0, 1, 2, 3));
+    // Move the chunk to another offset
+    new DataView(sealed).setUint32(12, 999);
+
+    expect((await answerer.open(sealed)).status).toBe("rejected");
+  });
+
+  it("rejects a damaged payload and plaintext frames", async () => {
+    const { offerer, answerer } = await createPair();
+    const sealed = await offerer.seal(chunk(0, 1, 2, 3));
+    new Uint8Array(sealed)[FRAME_HEADER_SIZE] ^= 0x01;
+
+    expect((await answerer.open(sealed)).status).toBe("rejected");
+    expect((await answerer.open(chunk(0, 1, 2, 3))).status).toBe("rejected");
+  });
+
+  it("does not open its own frames", async () => {
+    const { offerer } = await createPair();
+    const sealed = await offerer.seal(chunk(0, 1));
+
+    expect((await offerer.open(sealed)).status).toBe("rejected");
+  });
+});
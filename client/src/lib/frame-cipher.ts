@@ -0,0 +1,120 @@
+// AES-GCM for binary frames.
+// The payload is encrypted in place and the 32-byte header, with its sequence
+// number, is the associated data, so a frame cannot be moved to another file,
+// offset or position in the stream without failing authentication.
+// The nonce is a per-direction prefix followed by the sequence number. Both
+// peers share the session key, and the prefix keeps their nonces apart.
+
+import { FRAME_HEADER_SIZE, FrameFlags, readFrameHeader, writeFrameHeader, type FrameHeader } from './frame-protocol';
+
+const TAG_LENGTH = 16;
+const OFFERER_PREFIX = 1;
+const ANSWERER_PREFIX = 2;
+
+export type OpenResult =
+  | { status: 'ok'; frame: ArrayBuffer; header: FrameHeader }
+  // Sequence already seen or older than the last one: replayed or reordered
+  | { status: 'replayed'; header: FrameHeader }
+  // Authentication failed; the frame is returned untouched, still flagged encrypted
+  | { status: 'rejected'; frame: ArrayBuffer; header: FrameHeader };
+
+function createNonce(prefix: number, sequence: number): Uint8Array {
+  const nonce = new Uint8Array(12);
+  const view = new DataView(nonce.buffer);
+  view.setUint32(0, prefix);
+  view.setUint32(4, Math.floor(sequence / 0x100000000));
+  view.setUint32(8, sequence % 0x100000000);
+  return nonce;
+}
+
+export class FrameCipher {
+  private key: CryptoKey;
+  private sendPrefix: number;
+  private receivePrefix: number;
+  private sendSequence = 0;
+  private lastReceivedSequence = 0;
+
+  constructor(key: CryptoKey, isOfferer: boolean) {
+    this.key = key;
+    this.sendPrefix = isOfferer ? OFFERER_PREFIX : ANSWERER_PREFIX;
+    this.receivePrefix = isOfferer ? ANSWERER_PREFIX : OFFERER_PREFIX;
+  }
+
+  // Callers must seal in send order; the sequence is taken here
+  async seal(frame: ArrayBuffer): Promise<ArrayBuffer> {
+    const header = readFrameHeader(frame);
+    if (header.flags & FrameFlags.Encrypted) {
+      throw new Error('Frame is already encrypted');
+    }
+
+    // Never reuse a nonce under the same key
+    if (this.sendSequence >= Number.MAX_SAFE_INTEGER) {
+      throw new Error('Frame sequence exhausted; reconnect to start a new session');
+    }
+    const sequence = ++this.sendSequence;
+
+    const sealed = new ArrayBuffer(FRAME_HEADER_SIZE + header.length + TAG_LENGTH);
+    writeFrameHeader(sealed, {
+      ...header,
+      flags: header.flags | FrameFlags.Encrypted,
+      length: header.length + TAG_LENGTH,
+      sequence
+    });
+
+    const ciphertext = await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv: createNonce(this.sendPrefix, sequence),
+        additionalData: new Uint8Array(sealed, 0, FRAME_HEADER_SIZE)
+      },
+      this.key,
+      new Uint8Array(frame, FRAME_HEADER_SIZE, header.length)
+    );
+
+    new Uint8Array(sealed, FRAME_HEADER_SIZE).set(new Uint8Array(ciphertext));
+    return sealed;
+  }
+
+  // Frames must be opened in arrival order
+  async open(frame: ArrayBuffer): Promise<OpenResult> {
+    const header = readFrameHeader(frame);
+
+    // Plaintext frames are never accepted once the session is up
+    if (!(header.flags & FrameFlags.Encrypted) || header.length < TAG_LENGTH) {
+      return { status: 'rejected', frame, header };
+    }
+
+    if (header.sequence <= this.lastReceivedSequence) {
+      return { status: 'replayed', header };
+    }
+
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: createNonce(this.receivePrefix, header.sequence),
+          additionalData: new Uint8Array(frame, 0, FRAME_HEADER_SIZE)
+        },
+        this.key,
+        new Uint8Array(frame, FRAME_HEADER_SIZE, header.length)
+      );
+    } catch {
+      return { status: 'rejected', frame, header };
+    }
+
+    // Only authenticated sequence numbers move the window forward
+    this.lastReceivedSequence = header.sequence;
+
+    const opened = new ArrayBuffer(FRAME_HEADER_SIZE + plaintext.byteLength);
+    const openedHeader: FrameHeader = {
+      ...header,
+      flags: header.flags & ~FrameFlags.Encrypted,
+      length: plaintext.byteLength
+    };
+    writeFrameHeader(opened, openedHeader);
+    new Uint8Array(opened, FRAME_HEADER_SIZE).set(new Uint8Array(plaintext));
+
+    return { status: 'ok', frame: opened, header: openedHeader };
+  }
+}
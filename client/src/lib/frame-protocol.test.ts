@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  FRAME_HEADER_SIZE,
+  FRAME_VERSION,
+  FrameType,
+  decodeFrame,
+  encodeFrame,
+  isFrame,
+  isFrameIntact,
+  readFrameHeader
+} from "./frame-protocol";
+
+function bytes(...values: number[]) {
+  return new Uint8Array(values);
+}
+
+describe("frame protocol", () => {
+  it("round-trips a chunk frame", () => {
+    const payload = bytes(1, 2, 3, 4, 5);
+    const decoded = decodeFrame(encodeFrame({ type: FrameType.Chunk, fileIndex: 7, offset: 16384, payload }));
+
+    expect(decoded.type).toBe(FrameType.Chunk);
+    expect(decoded.fileIndex).toBe(7);
+    expect(decoded.offset).toBe(16384);
+    expect(Array.from(decoded.payload)).toEqual([1, 2, 3, 4, 5]);
+    expect(decoded.encrypted).toBe(false);
+    expect(isFrameIntact(decoded)).toBe(true);
+  });
+
+  it("round-trips a control frame with an empty payload", () => {
+    const buffer = encodeFrame({ type: FrameType.Control, fileIndex: 0, offset: 0, payload: new Uint8Array(0) });
+    expect(buffer.byteLength).toBe(FRAME_HEADER_SIZE);
+    expect(isFrame(buffer)).toBe(true);
+
+    const decoded = decodeFrame(buffer);
+    expect(decoded.type).toBe(FrameType.Control);
+    expect(decoded.payload.byteLength).toBe(0);
+    expect(isFrameIntact(decoded)).toBe(true);
+  });
+
+  it("keeps offsets above 4 GB exact", () => {
+    const offsets = [2 ** 32, 2 ** 32 + 1, 5 * 2 ** 32 + 12345, Number.MAX_SAFE_INTEGER];
+    for (const offset of offsets) {
+      const decoded = decodeFrame(encodeFrame({ type: FrameType.Chunk, fileIndex: 1, offset, payload: bytes(9) }));
+      expect(decoded.offset).toBe(offset);
+    }
+  });
+
+  it("flags a payload damaged in transit", () => {
+    const buffer = encodeFrame({ type: FrameType.Chunk, fileIndex: 0, offset: 0, payload: bytes(1, 2, 3) });
+    new Uint8Array(buffer)[FRAME_HEADER_SIZE + 1] ^= 0xff;
+
+    expect(isFrameIntact(decodeFrame(buffer))).toBe(false);
+  });
+
+  it("rejects a payload length that does not match the header", () => {
+    const buffer = encodeFrame({ type: FrameType.Chunk, fileIndex: 0, offset: 0, payload: bytes(1, 2, 3, 4) });
+    new DataView(buffer).setUint32(16, 3);
+
+    expect(() => decodeFrame(buffer)).toThrow(/length mismatch/);
+  });
+
+  it("rejects an unknown version", () => {
+    const buffer = encodeFrame({ type: FrameType.Chunk, fileIndex: 0, offset: 0, payload: bytes(1) });
+    new DataView(buffer).setUint8(0, FRAME_VERSION + 1);
+
+    expect(() => decodeFrame(buffer)).toThrow(/Unsupported frame version/);
+  });
+
+  it("rejects an unknown frame type", () => {
+    const buffer = encodeFrame({ type: FrameType.Chunk, fileIndex: 0, offset: 0, payload: bytes(1) });
+    new DataView(buffer).setUint8(1, 99);
+
+    expect(() => decodeFrame(buffer)).toThrow(/Unknown frame type/);
+  });
+
+  it("rejects a truncated buffer", () => {
+    const buffer = encodeFrame({ type: FrameType.Chunk, fileIndex: 0, offset: 0, payload: bytes(1, 2, 3) });
+
+    expect(() => decodeFrame(buffer.slice(0, FRAME_HEADER_SIZE - 1))).toThrow(/shorter than its header/);
+    expect(() => decodeFrame(buffer.slice(0, buffer.byteLength - 1))).toThrow(/length mismatch/);
+    expect(isFrame(buffer.slice(0, FRAME_HEADER_SIZE - 1))).toBe(false);
+  });
+
+  it("reads back every header field", () => {
+    const buffer = encodeFrame({ type: FrameType.Chunk, fileIndex: 0xffffffff, offset: 3, payload: bytes(1, 2) });
+    const header = readFrameHeader(buffer);
+
+    expect(header).toMatchObject({ type: FrameType.Chunk, flags: 0, fileIndex: 0xffffffff, offset: 3, length: 2, sequence: 0 });
+  });
+});
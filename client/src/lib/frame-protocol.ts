@@ -0,0 +1,147 @@
+// Binary framing for everything on the data channel.
+// File bytes travel as Chunk frames so they are never inflated into number
+// arrays; control messages (metadata, file-start, file-end...) are JSON inside
+// Control frames. Each frame carries a CRC-32 of its payload so a damaged chunk
+// can be re-requested on its own instead of failing the whole file.
+// The secure channel encrypts payloads in place (see frame-cipher.ts), using the
+// header as associated data and the sequence number as the nonce counter.
+//
+// Frame layout (big-endian):
+//   0      u8   version
+//   1      u8   frame type
+//   2..3   u16  flags
+//   4..7   u32  file index
+//   8..15  u64  byte offset within the file
+//   16..19 u32  payload length
+//   20..23 u32  CRC-32 of the plaintext payload
+//   24..31 u64  sequence number (0 until the frame is sealed)
+//   32..   payload bytes
+
+import { crc32 } from './crc32';
+
+export const FRAME_VERSION = 3;
+export const FRAME_HEADER_SIZE = 32;
+
+export enum FrameType {
+  Chunk = 1,
+  Control = 2
+}
+
+export enum FrameFlags {
+  // Payload is AES-GCM ciphertext followed by the tag
+  Encrypted = 1
+}
+
+export interface Frame {
+  type: FrameType;
+  fileIndex: number;
+  offset: number;
+  payload: Uint8Array;
+}
+
+export interface FrameHeader {
+  type: FrameType;
+  flags: number;
+  fileIndex: number;
+  offset: number;
+  length: number;
+  checksum: number;
+  sequence: number;
+}
+
+export interface DecodedFrame extends Frame {
+  // CRC-32 the sender computed; compare with isFrameIntact
+  checksum: number;
+  encrypted: boolean;
+}
+
+const UINT32_RANGE = 0x100000000;
+
+export function writeFrameHeader(target: ArrayBuffer, header: FrameHeader) {
+  const view = new DataView(target);
+
+  view.setUint8(0, FRAME_VERSION);
+  view.setUint8(1, header.type);
+  view.setUint16(2, header.flags);
+  view.setUint32(4, header.fileIndex);
+  // Offsets can exceed 4GB; split into two u32 halves to stay clear of BigInt
+  view.setUint32(8, Math.floor(header.offset / UINT32_RANGE));
+  view.setUint32(12, header.offset % UINT32_RANGE);
+  view.setUint32(16, header.length);
+  view.setUint32(20, header.checksum);
+  view.setUint32(24, Math.floor(header.sequence / UINT32_RANGE));
+  view.setUint32(28, header.sequence % UINT32_RANGE);
+}
+
+export function readFrameHeader(buffer: ArrayBuffer): FrameHeader {
+  if (buffer.byteLength < FRAME_HEADER_SIZE) {
+    throw new Error('Frame is shorter than its header');
+  }
+
+  const view = new DataView(buffer);
+  const version = view.getUint8(0);
+  if (version !== FRAME_VERSION) {
+    throw new Error(`Unsupported frame version ${version}`);
+  }
+
+  const type = view.getUint8(1);
+  if (!(type in FrameType)) {
+    throw new Error(`Unknown frame type ${type}`);
+  }
+
+  const length = view.getUint32(16);
+  if (FRAME_HEADER_SIZE + length !== buffer.byteLength) {
+    throw new Error(`Frame length mismatch: header says ${length}, got ${buffer.byteLength - FRAME_HEADER_SIZE}`);
+  }
+
+  return {
+    type,
+    flags: view.getUint16(2),
+    fileIndex: view.getUint32(4),
+    offset: view.getUint32(8) * UINT32_RANGE + view.getUint32(12),
+    length,
+    checksum: view.getUint32(20),
+    sequence: view.getUint32(24) * UINT32_RANGE + view.getUint32(28)
+  };
+}
+
+export function encodeFrame({ type, fileIndex, offset, payload }: Frame): ArrayBuffer {
+  const buffer = new ArrayBuffer(FRAME_HEADER_SIZE + payload.byteLength);
+
+  writeFrameHeader(buffer, {
+    type,
+    flags: 0,
+    fileIndex,
+    offset,
+    length: payload.byteLength,
+    checksum: crc32(payload),
+    sequence: 0
+  });
+
+  new Uint8Array(buffer, FRAME_HEADER_SIZE).set(payload);
+  return buffer;
+}
+
+// Header problems throw; a damaged payload is reported by isFrameIntact so the
+// receiver still knows which range to ask for again
+export function decodeFrame(buffer: ArrayBuffer): DecodedFrame {
+  const header = readFrameHeader(buffer);
+
+  return {
+    type: header.type,
+    fileIndex: header.fileIndex,
+    offset: header.offset,
+    payload: new Uint8Array(buffer, FRAME_HEADER_SIZE, header.length),
+    checksum: header.checksum,
+    encrypted: (header.flags & FrameFlags.Encrypted) !== 0
+  };
+}
+
+// A frame still encrypted at this point failed authentication in the secure channel
+export function isFrameIntact(frame: DecodedFrame): boolean {
+  return !frame.encrypted && crc32(frame.payload) === frame.checksum;
+}
+
+export function isFrame(data: unknown): data is ArrayBuffer {
+  return data instanceof ArrayBuffer && data.byteLength >= FRAME_HEADER_SIZE;
+}
@@ -0,0 +1,49 @@
+import { apiRequest } from "./queryClient";
+import { SHORT_CODE_PATTERN, normalizeShortCode } from "@shared/pairing";
+
+interface ShortCodeRegistration {
+  code: string;
+  expiresAt: string;
+}
+
+export function isShortCode(code: string): boolean {
+  return SHORT_CODE_PATTERN.test(normalizeShortCode(code));
+}
+
+// Park a full pairing code on the server and get back a short one to read out
+export async function registerShortCode(payload: string): Promise<ShortCodeRegistration> {
+  try {
+    const res = await apiRequest('POST', '/api/pair', { payload });
+    return await res.json();
+  } catch (error) {
+    throw new Error(readApiError(error, 'Could not create a short code'));
+  }
+}
+
+// Exchange a short code for the pairing code it stands for (one-time)
+export async function claimShortCode(code: string): Promise<string> {
+  try {
+    const res = await apiRequest('POST', `/api/pair/${encodeURIComponent(normalizeShortCode(code))}/claim`);
+    const { payload } = await res.json();
+    return payload;
+  } catch (error) {
+    throw new Error(readApiError(error, 'Could not look up this code'));
+  }
+}
+
+// Short codes resolve through the server; full codes are used as-is
+export async function resolvePairingCode(code: string): Promise<string> {
+  return isShortCode(code) ? claimShortCode(code) : code;
+}
+
+// apiRequest throws "<status>: <body>"; surface the server's message when there is one
+function readApiError(error: unknown, fallback: string): string {
+  if (!(error instanceof Error)) return fallback;
+
+  const body = error.message.replace(/^\d{3}: /, '');
+  try {
+    return JSON.parse(body).message || fallback;
+  } catch {
+    return fallback;
+  }
+}
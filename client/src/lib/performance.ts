@@ -50,7 +50,7 @@ export class PerformanceOptimizer {
     return Math.min(Math.max(cores / 2, 2), 8); // Between 2-8 parallel operations
   }
   
-  private getOptimalBufferSize(): number {
+  getOptimalBufferSize(): number {
     const memory = (navigator as any).deviceMemory || 4;
     if (memory >= 8) return 64 * 1024 * 1024; // 64MB for high-end devices
     if (memory >= 4) return 32 * 1024 * 1024; // 32MB for mid-range
@@ -1,36 +1,338 @@
 import QRCode from 'qrcode';
+import { toBase64, fromBase64, concatBytes } from './crypto';
+import { minifySdp, expandSdp } from './sdp-codec';
 
-interface PairingData {
+// Bumped whenever the payload layout changes; older codes are rejected outright
+export const PAIRING_VERSION = 4;
+// Matches PAIRING_CODE_TTL on the server
+const PAIRING_CODE_TTL = 10 * 60 * 1000;
+// How far apart the two devices' clocks may be
+const MAX_CLOCK_SKEW = 2 * 60 * 1000;
+// Slows down guessing the passcode from a captured code
+const COMMITMENT_ITERATIONS = 100000;
+const COMMITMENT_LABEL = 'beamshare-v1 passcode commitment';
+const COMMITMENT_INFO = 'beamshare-v1 commitment';
+const MAC_INFO = 'beamshare-v1 pairing mac';
+// Nonces of codes this device already used, with when they can be forgotten
+const USED_NONCES_KEY = 'beamshare-used-pairing-nonces';
+
+export type PairingErrorReason =
+  | 'expired'
+  | 'clock-skew'
+  | 'version'
+  | 'corrupt'
+  | 'tampered'
+  | 'replayed'
+  | 'wrong-type'
+  | 'passcode-required'
+  | 'wrong-passcode';
+
+export class PairingCodeError extends Error {
+  readonly reason: PairingErrorReason;
+
+  constructor(reason: PairingErrorReason, message: string) {
+    super(message);
+    this.name = 'PairingCodeError';
+    this.reason = reason;
+  }
+}
+
+export interface PairingContent {
   type: 'offer' | 'answer';
   sdp: string;
-  encryptionKey?: string;
+  // Nonce of the offer an answer responds to, so a stale answer cannot be replayed
+  replyTo?: string;
+}
+
+export interface PairingData extends PairingContent {
+  version: number;
+  nonce: string;
   timestamp: number;
+  // The passcode itself never leaves the device; this proves which one was used
+  keyCommitment?: string;
+  // HMAC-SHA-256 under a key stretched from the passcode, when one is set
+  mac?: string;
+}
+
+export interface GeneratedPairingCode {
+  code: string;
+  nonce: string;
+}
+
+interface ParseOptions {
+  passcode?: string;
+  // Offer nonce the answer must echo
+  replyTo?: string;
 }
 
-export async function generatePairingCode(data: Omit<PairingData, 'timestamp'>): Promise<string> {
+export async function generatePairingCode(
+  content: PairingContent,
+  passcode?: string
+): Promise<GeneratedPairingCode> {
   const pairingData: PairingData = {
-    ...data,
+    ...content,
+    sdp: packSdp(content.sdp),
+    version: PAIRING_VERSION,
+    nonce: toBase64(crypto.getRandomValues(new Uint8Array(12))),
     timestamp: Date.now()
   };
 
+  if (passcode) {
+    const stretched = await stretchPasscode(passcode, pairingData.nonce);
+    pairingData.keyCommitment = await commitPasscode(stretched);
+    pairingData.mac = await signPairingData(pairingData, stretched);
+  }
+
   const compressed = await compressData(JSON.stringify(pairingData));
-  return btoa(compressed);
+  return { code: btoa(compressed), nonce: pairingData.nonce };
 }
 
-export async function parsePairingCode(code: string): Promise<PairingData> {
+export async function parsePairingCode(code: string, { passcode, replyTo }: ParseOptions = {}): Promise<PairingData> {
+  let data;
   try {
-    const compressed = atob(code);
-    const decompressed = await decompressData(compressed);
-    const data = JSON.parse(decompressed);
-    
-    // Check if the code is not too old (10 minutes)
-    if (Date.now() - data.timestamp > 10 * 60 * 1000) {
-      throw new Error('Pairing code has expired');
+    data = JSON.parse(await decompressData(atob(code)));
+  } catch {
+    throw new PairingCodeError('corrupt', 'This pairing code is damaged or incomplete. Scan or copy it again.');
+  }
+
+  if (!data || typeof data !== 'object') {
+    throw new PairingCodeError('corrupt', 'This is not a BeamShare pairing code.');
+  }
+
+  // Version 1 codes had no version field
+  const version = typeof data.version === 'number' ? data.version : 1;
+  if (version !== PAIRING_VERSION) {
+    throw new PairingCodeError(
+      'version',
+      `This pairing code comes from ${version < PAIRING_VERSION ? 'an older' : 'a newer'} version of BeamShare. Update both devices and try again.`
+    );
+  }
+
+  if (
+    (data.type !== 'offer' && data.type !== 'answer') ||
+    typeof data.sdp !== 'string' ||
+    typeof data.nonce !== 'string' ||
+    typeof data.timestamp !== 'number'
+  ) {
+    throw new PairingCodeError('corrupt', 'This pairing code is missing required fields.');
+  }
+
+  if (data.keyCommitment && !passcode) {
+    throw new PairingCodeError('passcode-required', 'The sender protected this connection with a passcode. Enter it to continue.');
+  }
+  if (passcode && !data.keyCommitment) {
+    throw new PairingCodeError('wrong-passcode', 'The other device did not set a passcode. Clear yours and try again.');
+  }
+  if (passcode) {
+    const stretched = await stretchPasscode(passcode, data.nonce);
+    if (await commitPasscode(stretched) !== data.keyCommitment) {
+      throw new PairingCodeError('wrong-passcode', 'Wrong passcode. Check it with the sender and try again.');
     }
-    
-    return data;
+
+    // Checked before the timestamp so an edited timestamp reads as tampering
+    if (!(typeof data.mac === 'string' && await verifyPairingData(data, data.mac, stretched))) {
+      throw new PairingCodeError('tampered', 'This pairing code was altered or was not created with your passcode.');
+    }
+  }
+
+  const age = Date.now() - data.timestamp;
+  if (age < -MAX_CLOCK_SKEW) {
+    throw new PairingCodeError('clock-skew', 'This pairing code is dated in the future. Check the date and time on both devices.');
+  }
+  if (age > PAIRING_CODE_TTL + MAX_CLOCK_SKEW) {
+    throw new PairingCodeError('expired', 'This pairing code has expired. Ask for a new one.');
+  }
+
+  if (replyTo !== undefined && data.replyTo !== replyTo) {
+    throw new PairingCodeError('replayed', 'This answer code belongs to an earlier pairing code. Ask the receiver to scan the current one.');
+  }
+
+  try {
+    data.sdp = unpackSdp(data.sdp);
+  } catch {
+    throw new PairingCodeError('corrupt', 'The connection details in this pairing code are damaged.');
+  }
+
+  return data as PairingData;
+}
+
+// Records a code's nonce as used; false if it was used before. Kept until the
+// code could no longer pass the expiry check, and across reloads. The scope
+// keeps both ends apart when they share storage (two tabs of one browser)
+export function consumePairingNonce(scope: 'offer' | 'answer', nonce: string): boolean {
+  const key = `${scope}:${nonce}`;
+  const now = Date.now();
+  let used: Record<string, number> = {};
+  try {
+    used = JSON.parse(localStorage.getItem(USED_NONCES_KEY) || '{}');
+  } catch {
+    // Unreadable entry: start over
+  }
+
+  const current = Object.fromEntries(Object.entries(used).filter(([, expiresAt]) => expiresAt > now));
+  if (key in current) return false;
+
+  current[key] = now + PAIRING_CODE_TTL + 2 * MAX_CLOCK_SKEW;
+  try {
+    localStorage.setItem(USED_NONCES_KEY, JSON.stringify(current));
   } catch (error) {
-    throw new Error('Invalid pairing code');
+    console.warn('Failed to remember used pairing code:', error);
+  }
+  return true;
+}
+
+// On the wire the SDP is usually the compact binary form in base64; SDP text
+// always starts with "v=", which base64 never does, so the full text can stand in
+function packSdp(sdp: string): string {
+  try {
+    return toBase64(minifySdp(sdp));
+  } catch (error) {
+    console.warn('Sending the full SDP; it cannot be minified:', error);
+    return sdp;
+  }
+}
+
+function unpackSdp(sdp: string): string {
+  return sdp.startsWith('v=') ? sdp : expandSdp(fromBase64(sdp));
+}
+
+// Every field except the MAC itself, in a fixed order
+function pairingMacInput(data: PairingData): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify([
+    data.version,
+    data.type,
+    data.nonce,
+    data.timestamp,
+    data.sdp,
+    data.replyTo ?? null,
+    data.keyCommitment ?? null
+  ]));
+}
+
+// PBKDF2 salted with the code's nonce, so the same passcode stretches differently
+// every time. The commitment and the MAC key both come from this, so every
+// guess against a captured code pays for the iterations
+async function stretchPasscode(passcode: string, nonce: string): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey('raw', new TextEncoder().encode(passcode), 'PBKDF2', false, ['deriveBits']);
+  const stretched = await crypto.subtle.deriveBits(
+    {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      salt: concatBytes(new TextEncoder().encode(COMMITMENT_LABEL), fromBase64(nonce)),
+      iterations: COMMITMENT_ITERATIONS
+    },
+    keyMaterial,
+    256
+  );
+  return crypto.subtle.importKey('raw', stretched, 'HKDF', false, ['deriveBits', 'deriveKey']);
+}
+
+async function commitPasscode(stretched: CryptoKey): Promise<string> {
+  const commitment = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: new TextEncoder().encode(COMMITMENT_INFO) },
+    stretched,
+    256
+  );
+  return toBase64(new Uint8Array(commitment));
+}
+
+function deriveMacKey(stretched: CryptoKey): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: new TextEncoder().encode(MAC_INFO) },
+    stretched,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+async function signPairingData(data: PairingData, stretched: CryptoKey): Promise<string> {
+  const signature = await crypto.subtle.sign('HMAC', await deriveMacKey(stretched), pairingMacInput(data));
+  return toBase64(new Uint8Array(signature));
+}
+
+async function verifyPairingData(data: PairingData, mac: string, stretched: CryptoKey): Promise<boolean> {
+  try {
+    return await crypto.subtle.verify('HMAC', await deriveMacKey(stretched), fromBase64(mac), pairingMacInput(data));
+  } catch {
+    // Malformed base64
+    return false;
+  }
+}
+
+// Large codes are shown as a loop of QR frames, each "BSQR:<id>:<index>:<total>:<data>".
+// Base64 never contains ':', so a single-frame code can't be mistaken for a part.
+const QR_FRAME_PREFIX = 'BSQR';
+// Data per frame; keeps each code small enough to scan at 192px with level M
+export const QR_FRAME_CAPACITY = 180;
+// Far beyond any pairing code; a frame claiming more is not one of ours
+const MAX_QR_FRAMES = 64;
+
+export interface QrAssemblyProgress {
+  received: number;
+  total: number;
+  // Set once every part of the code has been seen
+  payload?: string;
+}
+
+export function splitIntoQrFrames(payload: string, capacity = QR_FRAME_CAPACITY): string[] {
+  if (payload.length <= capacity) return [payload];
+
+  // Tells frames of two different codes apart when the scanner sees both
+  const id = Array.from(crypto.getRandomValues(new Uint8Array(2)), byte => byte.toString(16).padStart(2, '0')).join('');
+  const total = Math.ceil(payload.length / capacity);
+
+  return Array.from({ length: total }, (_, index) =>
+    [QR_FRAME_PREFIX, id, index, total, payload.slice(index * capacity, (index + 1) * capacity)].join(':')
+  );
+}
+
+// Collects frames in any order, ignoring repeats, until the whole code is in
+export class QrFrameAssembler {
+  private id: string | null = null;
+  private parts: string[] = [];
+  private received = 0;
+
+  add(text: string): QrAssemblyProgress {
+    const match = text.match(/^BSQR:([0-9a-f]{4}):(\d+):(\d+):(.*)$/);
+
+    // An ordinary single-frame code
+    if (!match) {
+      return { received: 1, total: 1, payload: text };
+    }
+
+    const [, id, indexText, totalText, data] = match;
+    const index = Number(indexText);
+    const total = Number(totalText);
+
+    // Malformed frames are ignored; scanning carries on with the current code
+    if (!Number.isInteger(total) || total < 1 || total > MAX_QR_FRAMES
+      || !Number.isInteger(index) || index >= total) {
+      return { received: this.received, total: this.parts.length };
+    }
+
+    if (id !== this.id || total !== this.parts.length) {
+      this.id = id;
+      this.parts = new Array(total);
+      this.received = 0;
+    }
+
+    if (this.parts[index] === undefined) {
+      this.parts[index] = data;
+      this.received++;
+    }
+
+    return {
+      received: this.received,
+      total,
+      payload: this.received === total ? this.parts.join('') : undefined
+    };
+  }
+
+  reset() {
+    this.id = null;
+    this.parts = [];
+    this.received = 0;
   }
 }
 
@@ -70,10 +372,8 @@ export async function startQRScanner(
     const { default: QrScanner } = await import('qr-scanner');
     const qrScanner = new QrScanner(
       video,
-      (result) => {
-        onResult(result.data);
-        qrScanner.stop();
-      },
+      // Keeps scanning; multi-frame codes need several reads, so the caller stops it
+      (result) => onResult(result.data),
       {
         highlightScanRegion: true,
         highlightCodeOutline: true,
@@ -132,7 +432,7 @@ async function compressData(data: string): Promise<string> {
       offset += chunk.length;
     }
 
-    return String.fromCharCode(...compressed);
+    return Array.from(compressed, byte => String.fromCharCode(byte)).join('');
   }
   
   // Fallback: no compression
@@ -0,0 +1,37 @@
+// Background sync tells us when the network is back after a dropped transfer.
+// The service worker relays the 'resume-transfer' sync event to open pages.
+
+export const RESUME_SYNC_TAG = 'resume-transfer';
+export const RESUME_MESSAGE_TYPE = 'RESUME_TRANSFER';
+
+// SyncManager is not part of TypeScript's DOM lib yet
+interface SyncRegistration extends ServiceWorkerRegistration {
+  sync: { register(tag: string): Promise<void> };
+}
+
+export async function requestResumeSync(): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+
+  try {
+    const registration = await navigator.serviceWorker.ready;
+    if ('sync' in registration) {
+      await (registration as SyncRegistration).sync.register(RESUME_SYNC_TAG);
+    }
+  } catch (error) {
+    console.warn('Background sync unavailable:', error);
+  }
+}
+
+// Returns an unsubscribe function
+export function onResumeRequested(callback: () => void): () => void {
+  if (!('serviceWorker' in navigator)) return () => {};
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === RESUME_MESSAGE_TYPE) {
+      callback();
+    }
+  };
+
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+}
@@ -0,0 +1,70 @@
+// Short authentication string: both users compare a few emoji (or digits)
+// read off their own screens. The string covers the DTLS fingerprints of both
+// peers and the ECDH session, so a man-in-the-middle who swapped a pairing
+// code ends up with a different string on each side.
+
+export interface SasEmoji {
+  symbol: string;
+  name: string;
+}
+
+export interface ShortAuthString {
+  emoji: SasEmoji[];
+  // Six digits, for users who would rather read numbers
+  numeric: string;
+}
+
+// 64 entries, so each emoji encodes 6 bits
+const SAS_EMOJI: SasEmoji[] = [
+  { symbol: '🐶', name: 'Dog' }, { symbol: '🐱', name: 'Cat' }, { symbol: '🦁', name: 'Lion' },
+  { symbol: '🐎', name: 'Horse' }, { symbol: '🦄', name: 'Unicorn' }, { symbol: '🐷', name: 'Pig' },
+  { symbol: '🐘', name: 'Elephant' }, { symbol: '🐰', name: 'Rabbit' }, { symbol: '🐼', name: 'Panda' },
+  { symbol: '🐓', name: 'Rooster' }, { symbol: '🐧', name: 'Penguin' }, { symbol: '🐢', name: 'Turtle' },
+  { symbol: '🐟', name: 'Fish' }, { symbol: '🐙', name: 'Octopus' }, { symbol: '🦋', name: 'Butterfly' },
+  { symbol: '🌷', name: 'Flower' }, { symbol: '🌳', name: 'Tree' }, { symbol: '🌵', name: 'Cactus' },
+  { symbol: '🍄', name: 'Mushroom' }, { symbol: '🌏', name: 'Globe' }, { symbol: '🌙', name: 'Moon' },
+  { symbol: '☁️', name: 'Cloud' }, { symbol: '🔥', name: 'Fire' }, { symbol: '🍌', name: 'Banana' },
+  { symbol: '🍎', name: 'Apple' }, { symbol: '🍓', name: 'Strawberry' }, { symbol: '🌽', name: 'Corn' },
+  { symbol: '🍕', name: 'Pizza' }, { symbol: '🎂', name: 'Cake' }, { symbol: '❤️', name: 'Heart' },
+  { symbol: '😀', name: 'Smiley' }, { symbol: '🤖', name: 'Robot' }, { symbol: '🎩', name: 'Hat' },
+  { symbol: '👓', name: 'Glasses' }, { symbol: '🔧', name: 'Spanner' }, { symbol: '🎅', name: 'Santa' },
+  { symbol: '👍', name: 'Thumbs Up' }, { symbol: '☂️', name: 'Umbrella' }, { symbol: '⌛', name: 'Hourglass' },
+  { symbol: '⏰', name: 'Clock' }, { symbol: '🎁', name: 'Gift' }, { symbol: '💡', name: 'Light Bulb' },
+  { symbol: '📕', name: 'Book' }, { symbol: '✏️', name: 'Pencil' }, { symbol: '📎', name: 'Paperclip' },
+  { symbol: '✂️', name: 'Scissors' }, { symbol: '🔒', name: 'Lock' }, { symbol: '🔑', name: 'Key' },
+  { symbol: '🔨', name: 'Hammer' }, { symbol: '☎️', name: 'Telephone' }, { symbol: '🏁', name: 'Flag' },
+  { symbol: '🚂', name: 'Train' }, { symbol: '🚲', name: 'Bicycle' }, { symbol: '✈️', name: 'Aeroplane' },
+  { symbol: '🚀', name: 'Rocket' }, { symbol: '🏆', name: 'Trophy' }, { symbol: '⚽', name: 'Ball' },
+  { symbol: '🎸', name: 'Guitar' }, { symbol: '🎺', name: 'Trumpet' }, { symbol: '🔔', name: 'Bell' },
+  { symbol: '⚓', name: 'Anchor' }, { symbol: '🎧', name: 'Headphones' }, { symbol: '📁', name: 'Folder' },
+  { symbol: '📌', name: 'Pin' }
+];
+
+const SAS_EMOJI_COUNT = 5;
+
+// "sha-256 AB:CD:..." from the a=fingerprint line of an SDP
+export function extractFingerprint(sdp: string): string | null {
+  const match = sdp.match(/^a=fingerprint:(\S+) (\S+)/m);
+  return match ? `${match[1].toLowerCase()} ${match[2].toUpperCase()}` : null;
+}
+
+export async function deriveSas(fingerprints: string[], verification: Uint8Array): Promise<ShortAuthString> {
+  // Sorted so both peers hash the same input regardless of role
+  const encoded = new TextEncoder().encode(fingerprints.slice().sort().join('\n'));
+  const input = new Uint8Array(encoded.length + verification.length);
+  input.set(encoded);
+  input.set(verification, encoded.length);
+
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+
+  // First 30 bits pick the emoji
+  const bits = ((digest[0] << 24) | (digest[1] << 16) | (digest[2] << 8) | digest[3]) >>> 0;
+  const emoji = Array.from({ length: SAS_EMOJI_COUNT }, (_, index) =>
+    SAS_EMOJI[(bits >>> (26 - index * 6)) & 0x3f]
+  );
+
+  // Independent bytes for the digits
+  const number = ((digest[4] << 16) | (digest[5] << 8) | digest[6]) % 1000000;
+
+  return { emoji, numeric: number.toString().padStart(6, '0') };
+}
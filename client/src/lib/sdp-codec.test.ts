@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { expandSdp, minifySdp } from "./sdp-codec";
+
+const FINGERPRINT = Array.from({ length: 32 }, (_, index) => index.toString(16).toUpperCase().padStart(2, "0")).join(":");
+
+function sdp(candidates: string[], extra: string[] = []) {
+  return [
+    "v=0",
+    "o=- 4611731400430051336 2 IN IP4 127.0.0.1",
+    "s=-",
+    "t=0 0",
+    "a=group:BUNDLE 0",
+    "m=application 9 UDP/DTLS/SCTP webrtc-datachannel",
+    "c=IN IP4 0.0.0.0",
+    ...candidates.map(candidate => `a=candidate:${candidate}`),
+    "a=ice-ufrag:abcd",
+    "a=ice-pwd:0123456789abcdefghijklmn",
+    `a=fingerprint:sha-256 ${FINGERPRINT}`,
+    ...extra,
+    "a=setup:actpass",
+    "a=mid:0",
+    "a=sctp-port:5000",
+    "a=max-message-size:262144",
+    ""
+  ].join("\r\n");
+}
+
+function candidateLines(text: string) {
+  return text.split("\r\n").filter(line => line.startsWith("a=candidate:")).map(line => line.slice("a=candidate:".length));
+}
+
+describe("compact SDP", () => {
+  it("round-trips the session parameters", () => {
+    const expanded = expandSdp(minifySdp(sdp([])));
+
+    expect(expanded).toContain("a=ice-ufrag:abcd\r\n");
+    expect(expanded).toContain("a=ice-pwd:0123456789abcdefghijklmn\r\n");
+    expect(expanded).toContain(`a=fingerprint:sha-256 ${FINGERPRINT}\r\n`);
+    expect(expanded).toContain("a=setup:actpass\r\n");
+    expect(expanded).toContain("a=mid:0\r\n");
+    expect(expanded).toContain("a=sctp-port:5000\r\n");
+    expect(expanded).toContain("a=max-message-size:262144\r\n");
+  });
+
+  it("round-trips host, srflx and relay candidates", () => {
+    const candidates = [
+      "1 1 udp 2122260223 192.168.1.20 54321 typ host",
+      "2 1 tcp 1518280447 192.168.1.20 9 typ host tcptype active",
+      "3 1 udp 1686052607 203.0.113.7 61000 typ srflx raddr 192.168.1.20 rport 54321",
+      "4 1 udp 41885439 198.51.100.1 3478 typ relay raddr 203.0.113.7 rport 61000"
+    ];
+
+    expect(candidateLines(expandSdp(minifySdp(sdp(candidates))))).toEqual(candidates);
+  });
+
+  it("round-trips IPv6, mDNS and hostname addresses", () => {
+    const candidates = [
+      "1 1 udp 2122262783 2001:db8:0:0:0:0:0:1 50000 typ host",
+      "2 1 udp 2122194687 3f2a0c1b-4d5e-4f60-8a9b-0c1d2e3f4a5b.local 50001 typ host",
+      "3 1 udp 41885439 turn.example.com 3478 typ relay raddr 0.0.0.0 rport 0"
+    ];
+
+    expect(candidateLines(expandSdp(minifySdp(sdp(candidates))))).toEqual(candidates);
+  });
+
+  it("expands compressed IPv6 addresses to the same address", () => {
+    const [candidate] = candidateLines(expandSdp(minifySdp(sdp(["1 1 udp 1 fe80::1 9 typ host"]))));
+
+    expect(candidate).toBe("1 1 udp 1 fe80:0:0:0:0:0:0:1 9 typ host");
+  });
+
+  it("keeps the first of several fingerprints, which the security code is derived from", () => {
+    const text = sdp([], [`a=fingerprint:sha-1 ${FINGERPRINT.slice(0, 59)}`]);
+    const expanded = expandSdp(minifySdp(text));
+
+    expect(expanded.match(/^a=fingerprint:.*$/gm)).toEqual([`a=fingerprint:sha-256 ${FINGERPRINT}`]);
+  });
+
+  it("skips RTCP candidates", () => {
+    const candidates = ["1 1 udp 2122260223 192.168.1.20 54321 typ host", "1 2 udp 2122260222 192.168.1.20 54322 typ host"];
+
+    expect(candidateLines(expandSdp(minifySdp(sdp(candidates))))).toEqual([candidates[0]]);
+  });
+
+  it("refuses candidates it cannot carry instead of dropping them", () => {
+    const unpackable = [
+      "a1b2c3 1 udp 2122260223 192.168.1.20 54321 typ host",
+      "1 1 udp 2122260223 192.168.1.300 54321 typ host",
+      "1 1 udp 2122260223 192.168.01.2 54321 typ host",
+      "1 1 udp 2122260223 192.168.1.20 70000 typ host",
+      "1 1 sctp 2122260223 192.168.1.20 54321 typ host",
+      "1 1 udp 2122260223 192.168.1.20 54321 typ unknown",
+      "1 1 tcp 2122260223 192.168.1.20 9 typ host tcptype sideways",
+      "1 1 udp 2122260223 192.168.1.20"
+    ];
+
+    for (const candidate of unpackable) {
+      expect(() => minifySdp(sdp([candidate])), candidate).toThrow();
+    }
+  });
+
+  it("refuses SDPs it cannot represent", () => {
+    expect(() => minifySdp(sdp([]).replace("m=application", "m=audio"))).toThrow(/data-channel-only/);
+    expect(() => minifySdp(sdp([]).replace("a=ice-ufrag:abcd\r\n", ""))).toThrow(/ICE credentials/);
+    expect(() => minifySdp(sdp([]).replace("sha-256", "md5"))).toThrow(/fingerprint/);
+    expect(() => minifySdp(sdp([]).replace("a=setup:actpass", "a=setup:holdconn"))).toThrow(/setup role/);
+  });
+
+  it("rejects malformed compact input", () => {
+    const packed = minifySdp(sdp(["1 1 udp 2122260223 192.168.1.20 54321 typ host"]));
+
+    expect(() => expandSdp(packed.subarray(0, packed.length - 1))).toThrow(/truncated/);
+    expect(() => expandSdp(new Uint8Array(0))).toThrow(/truncated/);
+
+    const wrongVersion = packed.slice();
+    wrongVersion[0] = 99;
+    expect(() => expandSdp(wrongVersion)).toThrow(/version/);
+
+    const badHash = packed.slice();
+    badHash[2] = 9;
+    expect(() => expandSdp(badHash)).toThrow(/DTLS/);
+  });
+});
@@ -0,0 +1,417 @@
+// Compact binary form of a data-channel-only SDP for pairing codes.
+// Only what the remote peer actually needs survives: ICE credentials, the DTLS
+// fingerprint and setup role, the mid and SCTP parameters, and the gathered
+// candidates. expandSdp rebuilds a standard SDP from it; anything else in the
+// original (session ids, extension attributes, candidate extensions) is dropped.
+//
+// Layout (big-endian):
+//   u8 version, u8 setup role, u8 hash algorithm, fingerprint bytes,
+//   str ice-ufrag, str ice-pwd, str mid, u16 sctp-port, u32 max-message-size,
+//   u8 candidate count, then per candidate:
+//     u8 type | protocol << 2 | address kind << 3 | has related << 5
+//     u8 related address kind | tcptype << 2
+//     u32 foundation, u32 priority, address, u16 port,
+//     [related address, u16 related port], [tcptype]
+//   where str is u8 length + ASCII and an address is 4 (IPv4), 16 (IPv6 or mDNS
+//   UUID) or u8 length + ASCII (any other hostname) bytes.
+
+const CODEC_VERSION = 1;
+
+const SETUP_ROLES = ['actpass', 'active', 'passive'];
+const CANDIDATE_TYPES = ['host', 'srflx', 'prflx', 'relay'];
+const TCP_TYPES = ['active', 'passive', 'so'];
+const HASH_ALGORITHMS: Array<[string, number]> = [
+  ['sha-1', 20],
+  ['sha-256', 32],
+  ['sha-384', 48],
+  ['sha-512', 64]
+];
+
+enum AddressKind {
+  IPv4 = 0,
+  IPv6 = 1,
+  Mdns = 2,
+  Hostname = 3
+}
+
+interface Candidate {
+  foundation: number;
+  protocol: 'udp' | 'tcp';
+  priority: number;
+  address: string;
+  port: number;
+  type: string;
+  relatedAddress?: string;
+  relatedPort?: number;
+  tcpType?: string;
+}
+
+const DEFAULT_SCTP_PORT = 5000;
+const MDNS_PATTERN = /^([0-9a-f]{8})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{12})\.local$/i;
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  u8(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  u16(value: number) {
+    this.u8(value >>> 8);
+    this.u8(value);
+  }
+
+  u32(value: number) {
+    this.u16(value >>> 16);
+    this.u16(value & 0xffff);
+  }
+
+  raw(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.u8(values[i]);
+  }
+
+  str(value: string) {
+    if (value.length > 0xff || /[^\x20-\x7e]/.test(value)) {
+      throw new Error(`Cannot pack SDP value "${value}"`);
+    }
+    this.u8(value.length);
+    for (let i = 0; i < value.length; i++) this.u8(value.charCodeAt(i));
+  }
+
+  toBytes(): Uint8Array {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  u8(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error('Compact SDP is truncated');
+    }
+    return this.bytes[this.offset++];
+  }
+
+  u16(): number {
+    return (this.u8() << 8) | this.u8();
+  }
+
+  u32(): number {
+    return this.u16() * 0x10000 + this.u16();
+  }
+
+  raw(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Compact SDP is truncated');
+    }
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  str(): string {
+    return String.fromCharCode.apply(null, Array.from(this.raw(this.u8())));
+  }
+}
+
+// Throws when the SDP uses something the compact form cannot represent;
+// callers fall back to the full text
+export function minifySdp(sdp: string): Uint8Array {
+  const lines = sdp.split(/\r?\n/);
+  const attribute = (name: string) => {
+    const line = lines.find(line => line.startsWith(`a=${name}:`));
+    return line ? line.slice(name.length + 3).trim() : undefined;
+  };
+
+  if (lines.filter(line => line.startsWith('m=')).length !== 1 || !lines.some(line => line.startsWith('m=application'))) {
+    throw new Error('Only data-channel-only SDPs can be minified');
+  }
+
+  const ufrag = attribute('ice-ufrag');
+  const pwd = attribute('ice-pwd');
+  const fingerprint = attribute('fingerprint');
+  const setup = attribute('setup');
+  if (!ufrag || !pwd || !fingerprint || !setup) {
+    throw new Error('SDP is missing ICE credentials or DTLS parameters');
+  }
+
+  const [algorithm, hex] = fingerprint.split(' ');
+  const hashIndex = HASH_ALGORITHMS.findIndex(([name]) => name === algorithm.toLowerCase());
+  const fingerprintBytes = (hex || '').split(':').map(byte => parseInt(byte, 16));
+  if (hashIndex < 0 || fingerprintBytes.length !== HASH_ALGORITHMS[hashIndex][1] || fingerprintBytes.some(isNaN)) {
+    throw new Error(`Unsupported DTLS fingerprint ${algorithm}`);
+  }
+
+  const setupIndex = SETUP_ROLES.indexOf(setup);
+  if (setupIndex < 0) {
+    throw new Error(`Unknown DTLS setup role ${setup}`);
+  }
+
+  const candidates = lines
+    .filter(line => line.startsWith('a=candidate:'))
+    .map(line => parseCandidate(line.slice('a=candidate:'.length)))
+    .filter((candidate): candidate is Candidate => candidate !== null);
+
+  const writer = new ByteWriter();
+  writer.u8(CODEC_VERSION);
+  writer.u8(setupIndex);
+  writer.u8(hashIndex);
+  writer.raw(fingerprintBytes);
+  writer.str(ufrag);
+  writer.str(pwd);
+  writer.str(attribute('mid') || '0');
+  writer.u16(Number(attribute('sctp-port')) || DEFAULT_SCTP_PORT);
+  writer.u32(Number(attribute('max-message-size')) || 0);
+
+  writer.u8(Math.min(candidates.length, 0xff));
+  candidates.slice(0, 0xff).forEach(candidate => writeCandidate(writer, candidate));
+
+  return writer.toBytes();
+}
+
+export function expandSdp(packed: Uint8Array): string {
+  const reader = new ByteReader(packed);
+
+  const version = reader.u8();
+  if (version !== CODEC_VERSION) {
+    throw new Error(`Unsupported compact SDP version ${version}`);
+  }
+
+  const setup = SETUP_ROLES[reader.u8()];
+  const hash = HASH_ALGORITHMS[reader.u8()];
+  if (!setup || !hash) {
+    throw new Error('Compact SDP has an invalid DTLS section');
+  }
+  const fingerprint = Array.from(reader.raw(hash[1]), byte => byte.toString(16).toUpperCase().padStart(2, '0')).join(':');
+
+  const ufrag = reader.str();
+  const pwd = reader.str();
+  const mid = reader.str();
+  const sctpPort = reader.u16();
+  const maxMessageSize = reader.u32();
+
+  const count = reader.u8();
+  const candidates = Array.from({ length: count }, () => readCandidate(reader));
+
+  // Every peer gathers before the code is made, so candidates travel inline
+  return [
+    'v=0',
+    'o=- 1 2 IN IP4 127.0.0.1',
+    's=-',
+    't=0 0',
+    `a=group:BUNDLE ${mid}`,
+    'a=msid-semantic: WMS',
+    'm=application 9 UDP/DTLS/SCTP webrtc-datachannel',
+    'c=IN IP4 0.0.0.0',
+    ...candidates.map(candidate => `a=candidate:${formatCandidate(candidate)}`),
+    `a=ice-ufrag:${ufrag}`,
+    `a=ice-pwd:${pwd}`,
+    `a=fingerprint:${hash[0]} ${fingerprint}`,
+    `a=setup:${setup}`,
+    `a=mid:${mid}`,
+    `a=sctp-port:${sctpPort}`,
+    ...(maxMessageSize ? [`a=max-message-size:${maxMessageSize}`] : []),
+    ''
+  ].join('\r\n');
+}
+
+// RTCP candidates are skipped since data channels never use them. Any other
+// candidate the compact form cannot carry throws, so the full SDP is sent instead
+// of one that silently lost a route.
+function parseCandidate(value: string): Candidate | null {
+  const parts = value.trim().split(/\s+/);
+  const [foundation, component, protocol = '', priority, address, port, typ, type] = parts;
+
+  if (component !== '1') {
+    return null;
+  }
+
+  const lowerProtocol = protocol.toLowerCase();
+  if (
+    typ !== 'typ' ||
+    !isUint(foundation, 0xffffffff) ||
+    !isUint(priority, 0xffffffff) ||
+    !isUint(port, 0xffff) ||
+    !address ||
+    (lowerProtocol !== 'udp' && lowerProtocol !== 'tcp') ||
+    !CANDIDATE_TYPES.includes(type)
+  ) {
+    throw new Error(`Cannot pack ICE candidate "${value}"`);
+  }
+
+  const candidate: Candidate = {
+    foundation: Number(foundation),
+    protocol: lowerProtocol,
+    priority: Number(priority),
+    address,
+    port: Number(port),
+    type
+  };
+
+  for (let i = 8; i + 1 < parts.length; i += 2) {
+    if (parts[i] === 'raddr') candidate.relatedAddress = parts[i + 1];
+    if (parts[i] === 'rport') candidate.relatedPort = Number(parts[i + 1]);
+    if (parts[i] === 'tcptype') candidate.tcpType = parts[i + 1];
+  }
+
+  if (
+    (candidate.tcpType !== undefined && !TCP_TYPES.includes(candidate.tcpType)) ||
+    (candidate.relatedPort !== undefined && !isUint(String(candidate.relatedPort), 0xffff))
+  ) {
+    throw new Error(`Cannot pack ICE candidate "${value}"`);
+  }
+
+  return candidate;
+}
+
+function formatCandidate(candidate: Candidate): string {
+  let line = `${candidate.foundation} 1 ${candidate.protocol} ${candidate.priority} ${candidate.address} ${candidate.port} typ ${candidate.type}`;
+  if (candidate.relatedAddress !== undefined) {
+    line += ` raddr ${candidate.relatedAddress} rport ${candidate.relatedPort ?? 0}`;
+  }
+  if (candidate.tcpType !== undefined) {
+    line += ` tcptype ${candidate.tcpType}`;
+  }
+  return line;
+}
+
+function writeCandidate(writer: ByteWriter, candidate: Candidate) {
+  const hasRelated = candidate.relatedAddress !== undefined;
+  const addressKind = classifyAddress(candidate.address);
+  const relatedKind = hasRelated ? classifyAddress(candidate.relatedAddress!) : 0;
+  // tcptype is stored off by one so zero means absent
+  const tcpType = candidate.tcpType !== undefined ? TCP_TYPES.indexOf(candidate.tcpType) + 1 : 0;
+
+  writer.u8(
+    CANDIDATE_TYPES.indexOf(candidate.type) |
+    (candidate.protocol === 'tcp' ? 1 << 2 : 0) |
+    (addressKind << 3) |
+    (hasRelated ? 1 << 5 : 0)
+  );
+  writer.u8(relatedKind | (tcpType << 2));
+  writer.u32(candidate.foundation);
+  writer.u32(candidate.priority);
+  writeAddress(writer, addressKind, candidate.address);
+  writer.u16(candidate.port);
+
+  if (hasRelated) {
+    writeAddress(writer, relatedKind, candidate.relatedAddress!);
+    writer.u16(candidate.relatedPort ?? 0);
+  }
+}
+
+function readCandidate(reader: ByteReader): Candidate {
+  const flags = reader.u8();
+  const extra = reader.u8();
+  const type = CANDIDATE_TYPES[flags & 0x3];
+  const tcpType = extra >>> 2;
+
+  const candidate: Candidate = {
+    type,
+    protocol: flags & (1 << 2) ? 'tcp' : 'udp',
+    foundation: reader.u32(),
+    priority: reader.u32(),
+    address: readAddress(reader, (flags >>> 3) & 0x3),
+    port: reader.u16()
+  };
+
+  if (flags & (1 << 5)) {
+    candidate.relatedAddress = readAddress(reader, extra & 0x3);
+    candidate.relatedPort = reader.u16();
+  }
+
+  if (tcpType) {
+    candidate.tcpType = TCP_TYPES[tcpType - 1];
+    if (!candidate.tcpType) throw new Error('Compact SDP has an invalid tcptype');
+  }
+
+  return candidate;
+}
+
+function isUint(value: string | undefined, max: number): boolean {
+  return value !== undefined && /^\d+$/.test(value) && Number(value) <= max;
+}
+
+function classifyAddress(address: string): AddressKind {
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(address)) {
+    // Anything else would not survive the trip through single bytes
+    if (address.split('.').some(octet => Number(octet) > 255 || (octet.length > 1 && octet.startsWith('0')))) {
+      throw new Error(`Invalid IPv4 address ${address}`);
+    }
+    return AddressKind.IPv4;
+  }
+  if (address.includes(':') && parseIPv6(address)) return AddressKind.IPv6;
+  if (MDNS_PATTERN.test(address)) return AddressKind.Mdns;
+  return AddressKind.Hostname;
+}
+
+function writeAddress(writer: ByteWriter, kind: AddressKind, address: string) {
+  switch (kind) {
+    case AddressKind.IPv4:
+      writer.raw(address.split('.').map(Number));
+      break;
+    case AddressKind.IPv6:
+      writer.raw(parseIPv6(address)!);
+      break;
+    case AddressKind.Mdns:
+      writer.raw(hexToBytes(address.replace(MDNS_PATTERN, '$1$2$3$4$5')));
+      break;
+    default:
+      writer.str(address);
+  }
+}
+
+function readAddress(reader: ByteReader, kind: AddressKind): string {
+  switch (kind) {
+    case AddressKind.IPv4:
+      return Array.from(reader.raw(4)).join('.');
+    case AddressKind.IPv6: {
+      const bytes = reader.raw(16);
+      const groups: string[] = [];
+      for (let i = 0; i < 16; i += 2) {
+        groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+      }
+      return groups.join(':');
+    }
+    case AddressKind.Mdns: {
+      const hex = Array.from(reader.raw(16), byte => byte.toString(16).padStart(2, '0')).join('');
+      return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}.local`;
+    }
+    default:
+      return reader.str();
+  }
+}
+
+// 16 bytes, or null if the text is not a plain IPv6 address (zone ids are rejected)
+function parseIPv6(address: string): Uint8Array | null {
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const parse = (part: string) => (part ? part.split(':') : []);
+  const head = parse(halves[0]);
+  const tail = halves.length === 2 ? parse(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (missing < 0 || (halves.length === 1 && missing !== 0)) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some(group => !/^[0-9a-f]{1,4}$/i.test(group))) return null;
+
+  const bytes = new Uint8Array(16);
+  groups.forEach((group, index) => {
+    const value = parseInt(group, 16);
+    bytes[index * 2] = value >>> 8;
+    bytes[index * 2 + 1] = value & 0xff;
+  });
+  return bytes;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
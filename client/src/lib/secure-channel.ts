@@ -0,0 +1,190 @@
+import { commitKeyShare, createKeyShare, deriveSessionSecrets, type KeyShare, type SessionSecrets } from "./crypto";
+import { FrameCipher } from "./frame-cipher";
+import { FrameType, FRAME_HEADER_SIZE, encodeFrame } from "./frame-protocol";
+
+// Wraps the data channel with the session key exchange.
+// Both peers send a plaintext commitment to their key share when the channel
+// opens, and the share itself once the other's commitment arrived; everything
+// after that travels as sealed binary frames (see frame-cipher.ts). String
+// messages are wrapped in Control frames, file chunks are sealed as they are.
+// Sends and receives go through queues so async crypto never reorders messages.
+
+interface SecureChannelOptions {
+  isOfferer: boolean;
+  passcode?: string;
+  onMessage: (data: any) => void;
+  // Called with the verification bytes once the peer confirmed the key
+  onSecured?: (verification: Uint8Array) => void;
+  onError?: (error: Error) => void;
+}
+
+interface KeyCommitMessage {
+  type: 'key-commit';
+  commitment: string;
+}
+
+interface KeyShareMessage extends KeyShare {
+  type: 'key-share';
+}
+
+interface Session extends SessionSecrets {
+  cipher: FrameCipher;
+}
+
+export class SecureChannel {
+  readonly channel: RTCDataChannel;
+  private options: SecureChannelOptions;
+  private session: Promise<Session>;
+  private resolveRemoteShare!: (share: KeyShare) => void;
+  private resolveRemoteCommitment!: () => void;
+  private remoteCommitment: string | null = null;
+  private sendQueue: Promise<void> = Promise.resolve();
+  private receiveQueue: Promise<void> = Promise.resolve();
+  private failed = false;
+
+  constructor(channel: RTCDataChannel, options: SecureChannelOptions) {
+    this.channel = channel;
+    this.options = options;
+
+    // File data arrives as binary frames; keep them as ArrayBuffers rather than Blobs
+    channel.binaryType = 'arraybuffer';
+
+    const localShare = createKeyShare();
+    const remoteCommitment = new Promise<void>(resolve => {
+      this.resolveRemoteCommitment = resolve;
+    });
+    const remoteShare = new Promise<KeyShare>(resolve => {
+      this.resolveRemoteShare = resolve;
+    });
+
+    // Derived once per session and reused for every message
+    this.session = Promise.all([localShare, remoteShare])
+      .then(([local, remote]) =>
+        deriveSessionSecrets(local, remote, { isOfferer: options.isOfferer, passcode: options.passcode })
+      )
+      .then(secrets => ({ ...secrets, cipher: new FrameCipher(secrets.key, options.isOfferer) }));
+    this.session.catch(error => this.fail(error));
+
+    const exchangeKeys = () => {
+      localShare
+        .then(async ({ publicKey, salt }) => {
+          const commit: KeyCommitMessage = { type: 'key-commit', commitment: await commitKeyShare({ publicKey, salt }) };
+          channel.send(JSON.stringify(commit));
+
+          // Neither side reveals its share before it holds the other's commitment
+          await remoteCommitment;
+          const reveal: KeyShareMessage = { type: 'key-share', publicKey, salt };
+          channel.send(JSON.stringify(reveal));
+          // Proves to the peer that both sides derived the same key
+          this.send(JSON.stringify({ type: 'key-confirm' }));
+        })
+        .catch(error => this.fail(error));
+    };
+
+    if (channel.readyState === 'open') {
+      exchangeKeys();
+    } else {
+      channel.addEventListener('open', exchangeKeys, { once: true });
+    }
+
+    channel.addEventListener('message', (event) => this.receive(event.data));
+  }
+
+  // Queues a message; false when the channel is not open
+  send(data: ArrayBuffer | string): boolean {
+    if (this.channel.readyState !== 'open' || this.failed) return false;
+
+    this.sendQueue = this.sendQueue
+      .then(async () => {
+        const { cipher } = await this.session;
+        const frame = typeof data === 'string'
+          ? encodeFrame({ type: FrameType.Control, fileIndex: 0, offset: 0, payload: new TextEncoder().encode(data) })
+          : data;
+        // Sealed inside the queue so sequence numbers follow send order
+        const sealed = await cipher.seal(frame);
+        if (this.channel.readyState === 'open') this.channel.send(sealed);
+      })
+      .catch(error => this.fail(error));
+
+    return true;
+  }
+
+  // Resolves once everything passed to send() has been handed to the data channel
+  flushed(): Promise<void> {
+    return this.sendQueue;
+  }
+
+  close() {
+    this.channel.close();
+  }
+
+  private receive(data: ArrayBuffer | string) {
+    this.receiveQueue = this.receiveQueue
+      .then(async () => {
+        // The key commitment and share are the only plaintext messages
+        if (typeof data === 'string') {
+          const message = JSON.parse(data);
+          if (message.type === 'key-commit' && typeof message.commitment === 'string' && this.remoteCommitment === null) {
+            this.remoteCommitment = message.commitment;
+            this.resolveRemoteCommitment();
+          } else if (message.type === 'key-share') {
+            const share: KeyShare = { publicKey: message.publicKey, salt: message.salt };
+            if (this.remoteCommitment === null || await commitKeyShare(share) !== this.remoteCommitment) {
+              throw new Error('The peer sent a key it had not committed to. The connection may be intercepted.');
+            }
+            this.resolveRemoteShare(share);
+          }
+          return;
+        }
+
+        if (data.byteLength < FRAME_HEADER_SIZE) {
+          throw new Error('Received a truncated frame from the peer');
+        }
+
+        const { cipher, verification } = await this.session;
+        const result = await cipher.open(data);
+
+        if (result.status === 'replayed') {
+          console.warn(`Dropped replayed or out-of-order frame #${result.header.sequence}`);
+          return;
+        }
+
+        if (result.header.type === FrameType.Chunk) {
+          // A chunk that fails authentication is still handed on; it keeps its
+          // encrypted flag, so the receiver treats it as damaged and asks again
+          this.options.onMessage(result.frame);
+          return;
+        }
+
+        if (result.status === 'rejected') {
+          throw new Error('Could not decrypt data from the peer. Check that both sides use the same passcode.');
+        }
+
+        const text = new TextDecoder().decode(new Uint8Array(result.frame, FRAME_HEADER_SIZE));
+        let parsed;
+        try {
+          parsed = JSON.parse(text);
+        } catch {
+          parsed = text;
+        }
+
+        if (parsed?.type === 'key-confirm') {
+          this.options.onSecured?.(verification);
+          return;
+        }
+
+        this.options.onMessage(parsed);
+      })
+      .catch(error => this.fail(error));
+  }
+
+  private fail(error: Error) {
+    if (this.failed) return;
+    this.failed = true;
+
+    console.error('Secure channel error:', error);
+    this.options.onError?.(error);
+    // Nothing more can be exchanged safely
+    this.channel.close();
+  }
+}
@@ -0,0 +1,204 @@
+// Incremental SHA-256 (FIPS 180-4).
+// Web Crypto can only digest a complete buffer, so files would have to be held
+// in memory or read twice; this hasher consumes chunks as they are sent or
+// received and its state can be saved to resume hashing after a reload.
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const INITIAL_STATE = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+];
+
+const BLOCK_SIZE = 64;
+
+// Plain-data snapshot, safe to store in IndexedDB
+export interface Sha256State {
+  state: number[];
+  buffer: number[];
+  bytesHashed: number;
+}
+
+export class Sha256 {
+  private state = new Uint32Array(INITIAL_STATE);
+  private buffer = new Uint8Array(BLOCK_SIZE);
+  private bufferLength = 0;
+  private bytesHashed = 0;
+  private words = new Uint32Array(64);
+  private finished = false;
+
+  static fromState(saved: Sha256State): Sha256 {
+    const hasher = new Sha256();
+    hasher.state.set(saved.state);
+    hasher.buffer.set(saved.buffer);
+    hasher.bufferLength = saved.buffer.length;
+    hasher.bytesHashed = saved.bytesHashed;
+    return hasher;
+  }
+
+  get length(): number {
+    return this.bytesHashed;
+  }
+
+  update(data: Uint8Array | ArrayBuffer): this {
+    if (this.finished) {
+      throw new Error('SHA-256 digest already computed');
+    }
+
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    let position = 0;
+    this.bytesHashed += bytes.length;
+
+    // Top up a partially filled block first
+    if (this.bufferLength > 0) {
+      const take = Math.min(BLOCK_SIZE - this.bufferLength, bytes.length);
+      this.buffer.set(bytes.subarray(0, take), this.bufferLength);
+      this.bufferLength += take;
+      position = take;
+
+      if (this.bufferLength < BLOCK_SIZE) return this;
+      this.compress(this.buffer, 0);
+      this.bufferLength = 0;
+    }
+
+    // Whole blocks straight from the input, no copying
+    while (position + BLOCK_SIZE <= bytes.length) {
+      this.compress(bytes, position);
+      position += BLOCK_SIZE;
+    }
+
+    if (position < bytes.length) {
+      this.buffer.set(bytes.subarray(position));
+      this.bufferLength = bytes.length - position;
+    }
+
+    return this;
+  }
+
+  digest(): Uint8Array {
+    if (!this.finished) {
+      this.finish();
+    }
+
+    const out = new Uint8Array(32);
+    for (let i = 0; i < 8; i++) {
+      out[i * 4] = this.state[i] >>> 24;
+      out[i * 4 + 1] = this.state[i] >>> 16;
+      out[i * 4 + 2] = this.state[i] >>> 8;
+      out[i * 4 + 3] = this.state[i];
+    }
+    return out;
+  }
+
+  hexDigest(): string {
+    return Array.from(this.digest(), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  exportState(): Sha256State {
+    if (this.finished) {
+      throw new Error('SHA-256 digest already computed');
+    }
+
+    return {
+      state: Array.from(this.state),
+      buffer: Array.from(this.buffer.subarray(0, this.bufferLength)),
+      bytesHashed: this.bytesHashed
+    };
+  }
+
+  private finish() {
+    // Message length in bits as a 64-bit big-endian integer, split to avoid BigInt
+    const bitsHigh = Math.floor(this.bytesHashed / 0x20000000);
+    const bitsLow = (this.bytesHashed * 8) >>> 0;
+
+    this.buffer[this.bufferLength++] = 0x80;
+    if (this.bufferLength > BLOCK_SIZE - 8) {
+      this.buffer.fill(0, this.bufferLength);
+      this.compress(this.buffer, 0);
+      this.bufferLength = 0;
+    }
+    this.buffer.fill(0, this.bufferLength);
+
+    const view = new DataView(this.buffer.buffer);
+    view.setUint32(BLOCK_SIZE - 8, bitsHigh);
+    view.setUint32(BLOCK_SIZE - 4, bitsLow);
+    this.compress(this.buffer, 0);
+
+    this.finished = true;
+  }
+
+  private compress(data: Uint8Array, position: number) {
+    const w = this.words;
+    const h = this.state;
+
+    for (let i = 0; i < 16; i++) {
+      const j = position + i * 4;
+      w[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3];
+    }
+
+    for (let i = 16; i < 64; i++) {
+      const w15 = w[i - 15];
+      const w2 = w[i - 2];
+      const s0 = ((w15 >>> 7) | (w15 << 25)) ^ ((w15 >>> 18) | (w15 << 14)) ^ (w15 >>> 3);
+      const s1 = ((w2 >>> 17) | (w2 << 15)) ^ ((w2 >>> 19) | (w2 << 13)) ^ (w2 >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) | 0;
+    }
+
+    let a = h[0], b = h[1], c = h[2], d = h[3];
+    let e = h[4], f = h[5], g = h[6], hh = h[7];
+
+    for (let i = 0; i < 64; i++) {
+      const s1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const ch = (e & f) ^ (~e & g);
+      const t1 = (hh + s1 + ch + K[i] + w[i]) | 0;
+      const s0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + maj) | 0;
+
+      hh = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+
+    h[0] += a;
+    h[1] += b;
+    h[2] += c;
+    h[3] += d;
+    h[4] += e;
+    h[5] += f;
+    h[6] += g;
+    h[7] += hh;
+  }
+}
+
+// Feed a Blob/File through the hasher by streaming it; memory use stays at one read chunk
+export async function updateFromBlob(hasher: Sha256, blob: Blob): Promise<Sha256> {
+  const reader = blob.stream().getReader();
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      hasher.update(value);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  return hasher;
+}
+
+export async function hashBlob(blob: Blob, hasher = new Sha256()): Promise<string> {
+  return (await updateFromBlob(hasher, blob)).hexDigest();
+}
@@ -0,0 +1,116 @@
+import {
+  SIGNALING_PATH,
+  ROOM_CODE_PATTERN,
+  type SignalData,
+  type ClientSignalingMessage,
+  type ServerSignalingMessage
+} from "@shared/signaling";
+
+interface SignalingClientOptions {
+  url?: string;
+  onSignal?: (data: SignalData) => void;
+  onPeerJoined?: () => void;
+  onPeerLeft?: () => void;
+}
+
+// Unambiguous characters only - no 0/O or 1/I mix-ups when typing
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export function generateRoomCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(6));
+  return Array.from(bytes, byte => ROOM_CODE_ALPHABET[byte % ROOM_CODE_ALPHABET.length]).join('');
+}
+
+export function isRoomCode(code: string): boolean {
+  return ROOM_CODE_PATTERN.test(code.trim().toUpperCase());
+}
+
+export function getSignalingUrl(): string {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.host}${SIGNALING_PATH}`;
+}
+
+// Thin wrapper around the server's WebSocket signaling rooms
+export class SignalingClient {
+  private socket: WebSocket | null = null;
+
+  constructor(private options: SignalingClientOptions = {}) {}
+
+  // Join a room; resolves with the number of peers already waiting in it
+  join(room: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.options.url || getSignalingUrl());
+      this.socket = socket;
+      let joined = false;
+
+      socket.addEventListener('open', () => {
+        this.send({ type: 'join', room: room.trim().toUpperCase() });
+      });
+
+      socket.addEventListener('message', (event) => {
+        let message: ServerSignalingMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+
+        switch (message.type) {
+          case 'joined':
+            joined = true;
+            resolve(message.peers);
+            break;
+          case 'peer-joined':
+            this.options.onPeerJoined?.();
+            break;
+          case 'peer-left':
+            this.options.onPeerLeft?.();
+            break;
+          case 'signal':
+            this.options.onSignal?.(message.data);
+            break;
+          case 'error':
+            if (!joined) {
+              reject(new Error(message.message));
+            } else {
+              console.error('Signaling error:', message.message);
+            }
+            break;
+        }
+      });
+
+      socket.addEventListener('error', () => {
+        if (!joined) {
+          reject(new Error('Could not reach the signaling server'));
+        }
+      });
+
+      // A clean close (server restart, room refused) sends no error event
+      socket.addEventListener('close', () => {
+        if (!joined) {
+          reject(new Error('Signaling connection closed before joining the room'));
+        }
+      });
+    });
+  }
+
+  signal(data: SignalData): void {
+    this.send({ type: 'signal', data });
+  }
+
+  close(): void {
+    if (this.socket) {
+      if (this.socket.readyState === WebSocket.OPEN) {
+        this.send({ type: 'leave' });
+      }
+      this.socket.close();
+      this.socket = null;
+    }
+  }
+
+  private send(message: ClientSignalingMessage): void {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
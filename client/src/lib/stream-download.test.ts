@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { SequentialWriter } from "./stream-download";
+
+function collect() {
+  const written: Uint8Array[] = [];
+  const output = new WritableStream<Uint8Array>({
+    write(chunk) {
+      written.push(chunk.slice());
+    }
+  });
+  return { output, written };
+}
+
+function flatten(chunks: Uint8Array[]) {
+  return chunks.flatMap(chunk => Array.from(chunk));
+}
+
+describe("SequentialWriter", () => {
+  it("writes chunks in file order whatever order they arrive in", async () => {
+    const { output, written } = collect();
+    const appended: number[] = [];
+    const writer = new SequentialWriter(output, data => appended.push(...data));
+
+    await writer.write({ position: 4, data: new Uint8Array([5, 6]) });
+    await writer.write({ position: 2, data: new Uint8Array([3, 4]) });
+    // Overlaps what is already written
+    await writer.write({ position: 0, data: new Uint8Array([1, 2, 3]) });
+    await writer.close();
+
+    expect(flatten(written)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(appended).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(writer.length).toBe(6);
+  });
+
+  it("keeps accepting past 16 MB behind one lost chunk and reports only that gap", async () => {
+    const { output, written } = collect();
+    const writer = new SequentialWriter(output);
+    const chunk = new Uint8Array(4 * 1024 * 1024);
+
+    // The chunk at 0 is lost; 20 MB arrive after it
+    for (let index = 1; index <= 4; index++) {
+      await writer.write({ position: index * chunk.byteLength, data: chunk });
+    }
+    expect(writer.takeStalledGap()).toBeNull();
+
+    await writer.write({ position: 5 * chunk.byteLength, data: chunk });
+    expect(writer.takeStalledGap()).toEqual([0, chunk.byteLength]);
+    // Reported once per stall
+    await writer.write({ position: 6 * chunk.byteLength, data: chunk });
+    expect(writer.takeStalledGap()).toBeNull();
+    expect(written).toEqual([]);
+
+    // The retransmission drains everything held
+    await writer.write({ position: 0, data: chunk });
+    expect(writer.length).toBe(7 * chunk.byteLength);
+    expect(written.reduce((sum, data) => sum + data.byteLength, 0)).toBe(7 * chunk.byteLength);
+    expect(writer.takeStalledGap()).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+import type { ByteRange } from './byte-ranges';
+
+// Downloads streamed through the service worker.
+// The worker answers a virtual URL with a ReadableStream and asks this page for
+// data one chunk at a time over a MessagePort, so the browser's download
+// manager writes the file to disk as it is produced and nothing is buffered
+// here beyond the chunk in flight.
+
+export const DOWNLOAD_ROUTE = '/__beamshare-download/';
+export const REGISTER_DOWNLOAD_MESSAGE = 'REGISTER_DOWNLOAD';
+export const KEEP_ALIVE_MESSAGE = 'KEEP_ALIVE';
+
+const REGISTER_TIMEOUT_MS = 5000;
+// Idle service workers are stopped after about 30 seconds
+const KEEP_ALIVE_INTERVAL_MS = 10000;
+// The download has started long before this; the frame only has to outlive the request
+const FRAME_CLEANUP_DELAY_MS = 60000;
+// Out-of-order data held while waiting for a gap; past this the receiver asks for
+// the gap right away instead of when the file ends
+const STALLED_PENDING_BYTES = 16 * 1024 * 1024;
+
+export interface StreamDownloadOptions {
+  mimeType?: string;
+  // Lets the browser show real progress when known
+  size?: number;
+}
+
+// Needs a page controlled by the worker; the first visit is not
+export function isStreamDownloadSupported(): boolean {
+  return typeof navigator !== 'undefined'
+    && 'serviceWorker' in navigator
+    && !!navigator.serviceWorker.controller
+    && typeof ReadableStream !== 'undefined';
+}
+
+function registerDownload(
+  worker: ServiceWorker,
+  port: MessagePort,
+  transferPort: MessagePort,
+  data: { id: string; fileName: string; mimeType: string; size?: number }
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      port.onmessage = null;
+      reject(new Error('Service worker did not register the download'));
+    }, REGISTER_TIMEOUT_MS);
+
+    port.onmessage = (event) => {
+      if (event.data?.type === 'ready') {
+        clearTimeout(timeout);
+        resolve();
+      }
+    };
+    worker.postMessage({ type: REGISTER_DOWNLOAD_MESSAGE, data }, [transferPort]);
+  });
+}
+
+// Starts a download named fileName and returns the stream to write it through.
+// Writes wait until the browser asks for more, so they apply backpressure.
+export async function createDownloadStream(
+  fileName: string,
+  { mimeType = 'application/octet-stream', size }: StreamDownloadOptions = {}
+): Promise<WritableStream<Uint8Array>> {
+  const worker = navigator.serviceWorker?.controller;
+  if (!worker) {
+    throw new Error('Streaming downloads need an active service worker');
+  }
+
+  const id = crypto.randomUUID();
+  const channel = new MessageChannel();
+  const port = channel.port1;
+  await registerDownload(worker, port, channel.port2, { id, fileName, mimeType, size });
+
+  // Pulls the worker made that no chunk has answered yet
+  let credits = 0;
+  let waiting: { resolve: () => void; reject: (error: Error) => void } | null = null;
+  let cancelled: Error | null = null;
+
+  port.onmessage = (event) => {
+    switch (event.data?.type) {
+      case 'pull':
+        credits++;
+        waiting?.resolve();
+        waiting = null;
+        break;
+
+      case 'cancel':
+        cancelled = new Error('Download cancelled');
+        waiting?.reject(cancelled);
+        waiting = null;
+        break;
+    }
+  };
+
+  const waitForPull = () => {
+    if (cancelled) return Promise.reject(cancelled);
+    if (credits > 0) return Promise.resolve();
+    return new Promise<void>((resolve, reject) => {
+      waiting = { resolve, reject };
+    });
+  };
+
+  const keepAlive = setInterval(() => {
+    navigator.serviceWorker.controller?.postMessage({ type: KEEP_ALIVE_MESSAGE });
+  }, KEEP_ALIVE_INTERVAL_MS);
+
+  // A hidden frame starts the download without navigating this page away
+  const frame = document.createElement('iframe');
+  frame.hidden = true;
+  frame.src = `${DOWNLOAD_ROUTE}${id}`;
+  document.body.appendChild(frame);
+
+  const finish = () => {
+    clearInterval(keepAlive);
+    setTimeout(() => {
+      frame.remove();
+      port.close();
+    }, FRAME_CLEANUP_DELAY_MS);
+  };
+
+  return new WritableStream<Uint8Array>({
+    async write(chunk) {
+      await waitForPull();
+      credits--;
+      // Copy so the caller's buffer is never detached by the transfer
+      const copy = chunk.slice();
+      port.postMessage({ type: 'chunk', chunk: copy }, [copy.buffer]);
+    },
+    close() {
+      port.postMessage({ type: 'end' });
+      finish();
+    },
+    abort(reason) {
+      port.postMessage({ type: 'abort', reason: reason instanceof Error ? reason.message : String(reason ?? '') });
+      finish();
+    }
+  });
+}
+
+// Random-access chunk writes on top of a download, which can only be appended
+// to. Chunks ahead of the write position (retransmissions arrive late) wait in
+// memory until the gap before them is filled. They are never refused, so a lost
+// chunk costs one retransmission however much arrives after it.
+export class SequentialWriter {
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private position = 0;
+  private pending = new Map<number, Uint8Array>();
+  private pendingBytes = 0;
+  // Write position the current stall was reported at
+  private reportedStall: number | null = null;
+  private onAppend?: (data: Uint8Array) => void;
+
+  // onAppend sees every byte once, in file order
+  constructor(output: WritableStream<Uint8Array>, onAppend?: (data: Uint8Array) => void) {
+    this.writer = output.getWriter();
+    this.onAppend = onAppend;
+  }
+
+  get length() {
+    return this.position;
+  }
+
+  private async append(data: Uint8Array) {
+    this.onAppend?.(data);
+    this.position += data.byteLength;
+    await this.writer.write(data);
+  }
+
+  // Same shape as FileSystemWritableFileStream's write command
+  async write({ position, data }: { position: number; data: ArrayBuffer | Uint8Array }) {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+    if (position > this.position) {
+      const replaced = this.pending.get(position)?.byteLength ?? 0;
+      this.pending.set(position, bytes);
+      this.pendingBytes += bytes.byteLength - replaced;
+      return;
+    }
+
+    // Parts already written (a duplicate retransmission) are skipped
+    if (position + bytes.byteLength > this.position) {
+      await this.append(bytes.subarray(this.position - position));
+    }
+
+    while (true) {
+      const start = Array.from(this.pending.keys()).find(key => key <= this.position);
+      if (start === undefined) return;
+
+      const next = this.pending.get(start)!;
+      this.pending.delete(start);
+      this.pendingBytes -= next.byteLength;
+      if (start + next.byteLength > this.position) {
+        await this.append(next.subarray(this.position - start));
+      }
+    }
+  }
+
+  // The gap holding everything up, once per stall, when too much waits behind it
+  takeStalledGap(): ByteRange | null {
+    if (this.pendingBytes <= STALLED_PENDING_BYTES || this.reportedStall === this.position) {
+      return null;
+    }
+    this.reportedStall = this.position;
+    return [this.position, Math.min(...Array.from(this.pending.keys()))];
+  }
+
+  async close() {
+    await this.writer.close();
+  }
+
+  async abort(reason?: unknown) {
+    this.pending.clear();
+    this.pendingBytes = 0;
+    await this.writer.abort(reason);
+  }
+}
@@ -1,21 +1,48 @@
-import { generatePairingCode as genCode, parsePairingCode } from "./qr-utils";
-import { encryptData, decryptData } from "./crypto";
+import { generatePairingCode as genCode, parsePairingCode, consumePairingNonce, PairingCodeError, type PairingData } from "./qr-utils";
+import { SecureChannel } from "./secure-channel";
+import { extractFingerprint, deriveSas, type ShortAuthString } from "./sas";
+import { SignalingClient } from "./signaling";
+import type { SignalData } from "@shared/signaling";
 
-interface PeerConnectionOptions {
-  isOfferer: boolean;
-  pairingCode?: string;
+interface ConnectionCallbacks {
   encryptionKey?: string;
   turnServer?: string;
   onConnectionStateChange?: (state: RTCPeerConnectionState) => void;
   onConnected?: () => void;
   onDisconnected?: () => void;
+  onDataChannel?: (channel: SecureChannel) => void;
   onDataReceived?: (data: any) => void;
+  // Session key agreed and confirmed by the peer; the SAS is for the users to compare
+  onSecured?: (sas: ShortAuthString) => void;
+  onSecurityError?: (error: Error) => void;
+}
+
+interface PeerConnectionOptions extends ConnectionCallbacks {
+  isOfferer: boolean;
+  pairingCode?: string;
+}
+
+interface SignaledPeerConnectionOptions extends ConnectionCallbacks {
+  isOfferer: boolean;
+  roomCode: string;
+  signalingUrl?: string;
+  onPeerLeft?: () => void;
+  // A fresh connection replaced the previous one after the other peer left
+  onPeerConnection?: (peerConnection: RTCPeerConnection) => void;
 }
 
 interface PeerConnectionResult {
   peerConnection: RTCPeerConnection;
   dataChannel: RTCDataChannel;
   offerCode?: string;
+  // Echoed by the receiver's answer; pass it to applyAnswer
+  offerNonce?: string;
+  answerCode?: string;
+}
+
+interface SignaledPeerConnectionResult {
+  peerConnection: RTCPeerConnection;
+  signaling: SignalingClient;
 }
 
 // Optimized STUN servers for fastest connection establishment
@@ -27,105 +54,43 @@ const STUN_SERVERS = [
 ];
 
 export async function createPeerConnection(options: PeerConnectionOptions): Promise<PeerConnectionResult> {
-  const {
-    isOfferer,
-    pairingCode,
-    encryptionKey,
-    turnServer,
-    onConnectionStateChange,
-    onConnected,
-    onDisconnected,
-    onDataReceived
-  } = options;
+  const { isOfferer, pairingCode, encryptionKey, onDataChannel } = options;
 
-  const iceServers: RTCIceServer[] = [
-    ...STUN_SERVERS.map(url => ({ urls: url }))
-  ];
+  // The answerer checks the code and its passcode before any connection exists
+  const offerData = isOfferer ? null : await parseOfferCode(pairingCode, encryptionKey);
 
-  if (turnServer) {
-    iceServers.push({ urls: turnServer });
-  }
-
-  // Optimized configuration for fastest P2P connection
-  const peerConnection = new RTCPeerConnection({
-    iceServers,
-    iceCandidatePoolSize: 20, // More candidates for faster connection
-    iceTransportPolicy: 'all',
-    bundlePolicy: 'max-bundle', // Bundle for efficiency
-    rtcpMuxPolicy: 'require'    // Reduce overhead
-  });
+  const peerConnection = buildPeerConnection(options);
 
   let dataChannel: RTCDataChannel;
 
-  // Handle connection state changes
-  peerConnection.addEventListener('connectionstatechange', () => {
-    const state = peerConnection.connectionState;
-    onConnectionStateChange?.(state);
-    
-    if (state === 'connected') {
-      onConnected?.();
-    } else if (state === 'disconnected' || state === 'failed' || state === 'closed') {
-      onDisconnected?.();
-    }
-  });
-
   if (isOfferer) {
-    // Create high-performance data channel
-    dataChannel = peerConnection.createDataChannel('fileTransfer', {
-      ordered: true,
-      maxPacketLifeTime: 3000, // 3 second timeout
-      protocol: 'beamshare-v1'
-    });
-
-    setupDataChannel(dataChannel, encryptionKey, onDataReceived);
+    dataChannel = createFileTransferChannel(peerConnection);
+    onDataChannel?.(setupDataChannel(peerConnection, dataChannel, options));
 
     // Create offer
     const offer = await peerConnection.createOffer();
     await peerConnection.setLocalDescription(offer);
 
-    // Wait for ICE gathering to complete
-    await new Promise<void>((resolve) => {
-      if (peerConnection.iceGatheringState === 'complete') {
-        resolve();
-      } else {
-        const onIceGatheringComplete = () => {
-          if (peerConnection.iceGatheringState === 'complete') {
-            peerConnection.removeEventListener('icegatheringstatechange', onIceGatheringComplete);
-            resolve();
-          }
-        };
-        peerConnection.addEventListener('icegatheringstatechange', onIceGatheringComplete);
-      }
-    });
+    await waitForIceGathering(peerConnection);
 
-    const offerCode = await genCode({
+    // Only a commitment to the passcode goes into the code
+    const { code: offerCode, nonce: offerNonce } = await genCode({
       type: 'offer',
-      sdp: peerConnection.localDescription!.sdp,
-      encryptionKey
-    });
+      sdp: peerConnection.localDescription!.sdp
+    }, encryptionKey);
 
-    return { peerConnection, dataChannel, offerCode };
+    return { peerConnection, dataChannel, offerCode, offerNonce };
 
   } else {
     // Handle incoming data channel
     peerConnection.addEventListener('datachannel', (event) => {
       dataChannel = event.channel;
-      setupDataChannel(dataChannel, encryptionKey, onDataReceived);
+      onDataChannel?.(setupDataChannel(peerConnection, dataChannel, options));
     });
 
-    if (!pairingCode) {
-      throw new Error('Pairing code is required for answerer');
-    }
-
-    const offerData = await parsePairingCode(pairingCode);
-    
-    if (offerData.type !== 'offer') {
-      throw new Error('Invalid pairing code - not an offer');
-    }
-
     const offer: RTCSessionDescriptionInit = {
       type: 'offer',
-      sdp: offerData.sdp
+      sdp: offerData!.sdp
     };
 
     await peerConnection.setRemoteDescription(offer);
@@ -134,19 +99,247 @@ export async function createPeerConnection(options: PeerConnectionOptions): Prom
     const answer = await peerConnection.createAnswer();
     await peerConnection.setLocalDescription(answer);
 
-    // In a real implementation, you would need a signaling server to exchange the answer
-    // For this demo, we'll simulate a direct connection
-    // The answer would need to be sent back to the offerer through the same pairing mechanism
+    await waitForIceGathering(peerConnection);
+
+    // The answer travels back to the offerer through the same pairing mechanism
+    const { code: answerCode } = await genCode({
+      type: 'answer',
+      sdp: peerConnection.localDescription!.sdp,
+      replyTo: offerData!.nonce
+    }, encryptionKey);
 
-    return { peerConnection, dataChannel: dataChannel! };
+    return { peerConnection, dataChannel: dataChannel!, answerCode };
   }
 }
 
+// Connect through a WebSocket signaling room, trickling ICE candidates as they are found
+export async function createSignaledPeerConnection(
+  options: SignaledPeerConnectionOptions
+): Promise<SignaledPeerConnectionResult> {
+  const { isOfferer, roomCode, signalingUrl, onDataChannel, onPeerLeft, onPeerConnection } = options;
+
+  let peerConnection: RTCPeerConnection;
+  const pendingCandidates: RTCIceCandidateInit[] = [];
+  let offerSent = false;
+
+  const sendOffer = async () => {
+    if (offerSent) return;
+    offerSent = true;
+
+    const offer = await peerConnection.createOffer();
+    await peerConnection.setLocalDescription(offer);
+    signaling.signal({ kind: 'offer', sdp: offer.sdp! });
+  };
+
+  // Candidates can arrive before the remote description they belong to
+  const flushPendingCandidates = async () => {
+    while (pendingCandidates.length > 0) {
+      await peerConnection.addIceCandidate(pendingCandidates.shift());
+    }
+  };
+
+  const handleSignal = async (data: SignalData) => {
+    try {
+      switch (data.kind) {
+        case 'offer': {
+          if (isOfferer) return;
+          await peerConnection.setRemoteDescription({ type: 'offer', sdp: data.sdp });
+          await flushPendingCandidates();
+
+          const answer = await peerConnection.createAnswer();
+          await peerConnection.setLocalDescription(answer);
+          signaling.signal({ kind: 'answer', sdp: answer.sdp! });
+          break;
+        }
+
+        case 'answer':
+          if (!isOfferer) return;
+          await peerConnection.setRemoteDescription({ type: 'answer', sdp: data.sdp });
+          await flushPendingCandidates();
+          break;
+
+        case 'candidate':
+          if (peerConnection.remoteDescription) {
+            await peerConnection.addIceCandidate(data.candidate);
+          } else {
+            pendingCandidates.push(data.candidate);
+          }
+          break;
+      }
+    } catch (error) {
+      console.error('Error handling signaling message:', error);
+    }
+  };
+
+  const signaling = new SignalingClient({
+    url: signalingUrl,
+    onSignal: handleSignal,
+    onPeerJoined: () => {
+      if (isOfferer) {
+        sendOffer().catch(error => console.error('Failed to send offer:', error));
+      }
+    },
+    onPeerLeft: () => {
+      // A peer that rejoins starts from scratch, so both sides negotiate anew
+      peerConnection.close();
+      peerConnection = startNegotiation();
+      onPeerConnection?.(peerConnection);
+      onPeerLeft?.();
+    }
+  });
+
+  function startNegotiation(): RTCPeerConnection {
+    const connection = buildPeerConnection(options);
+    pendingCandidates.length = 0;
+    offerSent = false;
+
+    connection.addEventListener('icecandidate', (event) => {
+      if (event.candidate) {
+        const { candidate, sdpMid, sdpMLineIndex, usernameFragment } = event.candidate;
+        signaling.signal({ kind: 'candidate', candidate: { candidate, sdpMid, sdpMLineIndex, usernameFragment } });
+      }
+    });
+
+    if (isOfferer) {
+      const dataChannel = createFileTransferChannel(connection);
+      onDataChannel?.(setupDataChannel(connection, dataChannel, options));
+    } else {
+      connection.addEventListener('datachannel', (event) => {
+        onDataChannel?.(setupDataChannel(connection, event.channel, options));
+      });
+    }
+    return connection;
+  }
+
+  peerConnection = startNegotiation();
+
+  try {
+    const waitingPeers = await signaling.join(roomCode);
+
+    // The receiver may already be waiting in the room
+    if (isOfferer && waitingPeers > 0) {
+      await sendOffer();
+    }
+  } catch (error) {
+    signaling.close();
+    peerConnection.close();
+    throw error;
+  }
+
+  return { peerConnection, signaling };
+}
+
+async function parseOfferCode(pairingCode: string | undefined, passcode?: string): Promise<PairingData> {
+  if (!pairingCode) {
+    throw new Error('Pairing code is required for answerer');
+  }
+
+  const offerData = await parsePairingCode(pairingCode, { passcode });
+
+  if (offerData.type !== 'offer') {
+    throw new PairingCodeError('wrong-type', "This is an answer code. Scan the sender's pairing code instead.");
+  }
+
+  // Each offer is answered once; a captured code cannot open a second connection
+  if (!consumePairingNonce('offer', offerData.nonce)) {
+    throw new PairingCodeError('replayed', 'This pairing code was already used. Ask the sender for a new one.');
+  }
+
+  return offerData;
+}
+
+// Complete the handshake on the offerer side with the receiver's answer code
+export async function applyAnswer(
+  peerConnection: RTCPeerConnection,
+  answerCode: string,
+  { offerNonce, passcode }: { offerNonce: string; passcode?: string }
+): Promise<void> {
+  const answerData = await parsePairingCode(answerCode, { passcode, replyTo: offerNonce });
+
+  if (answerData.type !== 'answer') {
+    throw new PairingCodeError('wrong-type', "This is a pairing code, not an answer. Scan the code the receiver shows.");
+  }
+
+  // Only the first answer to an offer is taken
+  if (!consumePairingNonce('answer', offerNonce)) {
+    throw new PairingCodeError('replayed', 'This pairing code was already answered. Create a new one.');
+  }
+
+  await peerConnection.setRemoteDescription({
+    type: 'answer',
+    sdp: answerData.sdp
+  });
+}
+
+function buildPeerConnection({
+  turnServer,
+  onConnectionStateChange,
+  onConnected,
+  onDisconnected
+}: ConnectionCallbacks): RTCPeerConnection {
+  const iceServers: RTCIceServer[] = [
+    ...STUN_SERVERS.map(url => ({ urls: url }))
+  ];
+
+  if (turnServer) {
+    iceServers.push({ urls: turnServer });
+  }
+
+  // Optimized configuration for fastest P2P connection
+  const peerConnection = new RTCPeerConnection({
+    iceServers,
+    iceCandidatePoolSize: 20, // More candidates for faster connection
+    iceTransportPolicy: 'all',
+    bundlePolicy: 'max-bundle', // Bundle for efficiency
+    rtcpMuxPolicy: 'require'    // Reduce overhead
+  });
+
+  // Handle connection state changes
+  peerConnection.addEventListener('connectionstatechange', () => {
+    const state = peerConnection.connectionState;
+    onConnectionStateChange?.(state);
+    
+    if (state === 'connected') {
+      onConnected?.();
+    } else if (state === 'disconnected' || state === 'failed' || state === 'closed') {
+      onDisconnected?.();
+    }
+  });
+
+  return peerConnection;
+}
+
+// Create high-performance data channel
+function createFileTransferChannel(peerConnection: RTCPeerConnection): RTCDataChannel {
+  return peerConnection.createDataChannel('fileTransfer', {
+    ordered: true,
+    maxPacketLifeTime: 3000, // 3 second timeout
+    protocol: 'beamshare-v1'
+  });
+}
+
+// Wait for ICE gathering to complete so the SDP carries every candidate
+function waitForIceGathering(peerConnection: RTCPeerConnection): Promise<void> {
+  return new Promise<void>((resolve) => {
+    if (peerConnection.iceGatheringState === 'complete') {
+      resolve();
+    } else {
+      const onIceGatheringComplete = () => {
+        if (peerConnection.iceGatheringState === 'complete') {
+          peerConnection.removeEventListener('icegatheringstatechange', onIceGatheringComplete);
+          resolve();
+        }
+      };
+      peerConnection.addEventListener('icegatheringstatechange', onIceGatheringComplete);
+    }
+  });
+}
+
 function setupDataChannel(
+  peerConnection: RTCPeerConnection,
   dataChannel: RTCDataChannel,
-  encryptionKey?: string,
-  onDataReceived?: (data: any) => void
-) {
+  { isOfferer, encryptionKey, onDataReceived, onSecured, onSecurityError }: ConnectionCallbacks & { isOfferer: boolean }
+): SecureChannel {
   dataChannel.addEventListener('open', () => {
     console.log('Data channel opened');
   });
@@ -159,26 +352,33 @@ function setupDataChannel(
     console.error('Data channel error:', error);
   });
 
-  dataChannel.addEventListener('message', async (event) => {
-    try {
-      let data = event.data;
-      
-      if (encryptionKey) {
-        data = await decryptData(data, encryptionKey);
-      }
+  // The passcode, if any, is mixed into the session key
+  return new SecureChannel(dataChannel, {
+    isOfferer,
+    passcode: encryptionKey,
+    onMessage: data => onDataReceived?.(data),
+    onSecured: verification => {
+      deriveConnectionSas(peerConnection, verification)
+        .then(sas => onSecured?.(sas))
+        .catch(error => onSecurityError?.(error));
+    },
+    onError: onSecurityError
+  });
+}
 
-      let parsedData;
-      try {
-        parsedData = JSON.parse(data);
-      } catch {
-        parsedData = data;
-      }
+// Both DTLS certificates go into the SAS, so a relayed connection shows a different one
+async function deriveConnectionSas(
+  peerConnection: RTCPeerConnection,
+  verification: Uint8Array
+): Promise<ShortAuthString> {
+  const fingerprints = [peerConnection.localDescription, peerConnection.remoteDescription]
+    .map(description => description ? extractFingerprint(description.sdp) : null);
 
-      onDataReceived?.(parsedData);
-    } catch (error) {
-      console.error('Error processing received data:', error);
-    }
-  });
+  if (fingerprints.some(fingerprint => !fingerprint)) {
+    throw new Error('Connection is missing a DTLS fingerprint');
+  }
+
+  return deriveSas(fingerprints as string[], verification);
 }
 
-export { generatePairingCode } from "./qr-utils";
+export { generatePairingCode } from "./qr-utils";
\ No newline at end of file
@@ -0,0 +1,248 @@
+// Streaming ZIP writer (store mode, no compression).
+// Each entry is written as its data is read: the local header goes out with
+// the CRC left open and a data descriptor follows the data, so nothing is
+// held in memory. ZIP64 records are only added to entries and archives that
+// need them, which keeps small archives readable by tools without ZIP64.
+
+import { crc32 } from './crc32';
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const ZIP64_END_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const END_SIGNATURE = 0x06054b50;
+
+// Sizes follow the data; names are UTF-8
+const FLAGS = 0x0008 | 0x0800;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+const ZIP64_EXTRA_ID = 0x0001;
+// Made on Unix, so extractors take file permissions from the external attributes
+const MADE_BY_UNIX = 3 << 8;
+const FILE_ATTRIBUTES = (0o100644 << 16) >>> 0;
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+
+interface ZipEntry {
+  name: Uint8Array;
+  size: number;
+  crc: number;
+  offset: number;
+  zip64: boolean;
+  time: number;
+  date: number;
+}
+
+// Little-endian record builder; 64-bit values are plain numbers (< 2^53)
+class RecordWriter {
+  readonly bytes: Uint8Array;
+  private view: DataView;
+  private position = 0;
+
+  constructor(length: number) {
+    this.bytes = new Uint8Array(length);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  u16(value: number) {
+    this.view.setUint16(this.position, value, true);
+    this.position += 2;
+    return this;
+  }
+
+  u32(value: number) {
+    this.view.setUint32(this.position, value >>> 0, true);
+    this.position += 4;
+    return this;
+  }
+
+  u64(value: number) {
+    this.u32(value % 0x100000000);
+    return this.u32(Math.floor(value / 0x100000000));
+  }
+
+  raw(data: Uint8Array) {
+    this.bytes.set(data, this.position);
+    this.position += data.byteLength;
+    return this;
+  }
+}
+
+function toDosDateTime(date: Date) {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+export class ZipWriter {
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  // Entries are written strictly one after another
+  private queue: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  constructor(output: WritableStream<Uint8Array>) {
+    this.writer = output.getWriter();
+  }
+
+  get entryCount() {
+    return this.entries.length;
+  }
+
+  private async write(data: Uint8Array) {
+    await this.writer.write(data);
+    this.offset += data.byteLength;
+  }
+
+  // size must be the exact number of bytes data yields
+  addEntry(path: string, size: number, data: ReadableStream<Uint8Array>, modified = new Date()): Promise<void> {
+    if (this.closed) {
+      return Promise.reject(new Error('Archive is already closed'));
+    }
+    const run = this.queue.then(() => this.writeEntry(path, size, data, modified));
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  private async writeEntry(path: string, size: number, data: ReadableStream<Uint8Array>, modified: Date) {
+    const name = new TextEncoder().encode(path);
+    const zip64 = size >= MAX_UINT32;
+    const { time, date } = toDosDateTime(modified);
+    const entry: ZipEntry = { name, size, crc: 0, offset: this.offset, zip64, time, date };
+
+    const header = new RecordWriter(30 + name.byteLength + (zip64 ? 20 : 0))
+      .u32(LOCAL_HEADER_SIGNATURE)
+      .u16(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT)
+      .u16(FLAGS)
+      .u16(0)
+      .u16(time)
+      .u16(date)
+      .u32(0)
+      .u32(zip64 ? MAX_UINT32 : 0)
+      .u32(zip64 ? MAX_UINT32 : 0)
+      .u16(name.byteLength)
+      .u16(zip64 ? 20 : 0)
+      .raw(name);
+    if (zip64) {
+      // Real sizes are in the data descriptor
+      header.u16(ZIP64_EXTRA_ID).u16(16).u64(0).u64(0);
+    }
+    await this.write(header.bytes);
+
+    let written = 0;
+    const reader = data.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      entry.crc = crc32(value, entry.crc);
+      written += value.byteLength;
+      await this.write(value);
+    }
+
+    if (written !== size) {
+      throw new Error(`${path} is ${written} bytes, expected ${size}`);
+    }
+
+    const descriptor = new RecordWriter(zip64 ? 24 : 16)
+      .u32(DATA_DESCRIPTOR_SIGNATURE)
+      .u32(entry.crc);
+    if (zip64) {
+      descriptor.u64(size).u64(size);
+    } else {
+      descriptor.u32(size).u32(size);
+    }
+    await this.write(descriptor.bytes);
+
+    this.entries.push(entry);
+  }
+
+  // Writes the central directory and ends the download
+  async close() {
+    this.closed = true;
+    await this.queue;
+
+    const directoryOffset = this.offset;
+    for (const entry of this.entries) {
+      const largeOffset = entry.offset >= MAX_UINT32;
+      const extraLength = (entry.zip64 ? 16 : 0) + (largeOffset ? 8 : 0);
+      const needsZip64 = entry.zip64 || largeOffset;
+
+      const record = new RecordWriter(46 + entry.name.byteLength + (extraLength > 0 ? 4 + extraLength : 0))
+        .u32(CENTRAL_HEADER_SIGNATURE)
+        .u16(MADE_BY_UNIX | (needsZip64 ? VERSION_ZIP64 : VERSION_DEFAULT))
+        .u16(needsZip64 ? VERSION_ZIP64 : VERSION_DEFAULT)
+        .u16(FLAGS)
+        .u16(0)
+        .u16(entry.time)
+        .u16(entry.date)
+        .u32(entry.crc)
+        .u32(entry.zip64 ? MAX_UINT32 : entry.size)
+        .u32(entry.zip64 ? MAX_UINT32 : entry.size)
+        .u16(entry.name.byteLength)
+        .u16(extraLength > 0 ? 4 + extraLength : 0)
+        .u16(0)
+        .u16(0)
+        .u16(0)
+        .u32(FILE_ATTRIBUTES)
+        .u32(largeOffset ? MAX_UINT32 : entry.offset)
+        .raw(entry.name);
+
+      // Only the fields that overflowed are listed, in this order
+      if (extraLength > 0) {
+        record.u16(ZIP64_EXTRA_ID).u16(extraLength);
+        if (entry.zip64) record.u64(entry.size).u64(entry.size);
+        if (largeOffset) record.u64(entry.offset);
+      }
+      await this.write(record.bytes);
+    }
+
+    const directorySize = this.offset - directoryOffset;
+    const count = this.entries.length;
+
+    // The classic end record then only carries placeholders
+    const zip64End = count >= MAX_UINT16 || directorySize >= MAX_UINT32 || directoryOffset >= MAX_UINT32;
+    if (zip64End) {
+      const zip64EndOffset = this.offset;
+      await this.write(new RecordWriter(56)
+        .u32(ZIP64_END_SIGNATURE)
+        .u64(44)
+        .u16(MADE_BY_UNIX | VERSION_ZIP64)
+        .u16(VERSION_ZIP64)
+        .u32(0)
+        .u32(0)
+        .u64(count)
+        .u64(count)
+        .u64(directorySize)
+        .u64(directoryOffset)
+        .bytes);
+      await this.write(new RecordWriter(20)
+        .u32(ZIP64_LOCATOR_SIGNATURE)
+        .u32(0)
+        .u64(zip64EndOffset)
+        .u32(1)
+        .bytes);
+    }
+
+    await this.write(new RecordWriter(22)
+      .u32(END_SIGNATURE)
+      .u16(0)
+      .u16(0)
+      .u16(zip64End ? MAX_UINT16 : count)
+      .u16(zip64End ? MAX_UINT16 : count)
+      .u32(zip64End ? MAX_UINT32 : directorySize)
+      .u32(zip64End ? MAX_UINT32 : directoryOffset)
+      .u16(0)
+      .bytes);
+
+    await this.writer.close();
+  }
+
+  async abort(reason?: unknown) {
+    this.closed = true;
+    await this.writer.abort(reason);
+  }
+}
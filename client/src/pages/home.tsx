@@ -4,14 +4,28 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useTheme } from "@/components/theme-provider";
 import { QrCodeDisplay } from "@/components/qr-code-display";
 import { QrScanner } from "@/components/qr-scanner";
 import { FileSelector } from "@/components/file-selector";
 import { TransferProgress } from "@/components/transfer-progress";
-import { useWebRTC } from "@/hooks/use-webrtc";
-import { useFileTransfer } from "@/hooks/use-file-transfer";
+import { SasVerification } from "@/components/sas-verification";
+import { ReceiverList } from "@/components/receiver-list";
+import { PasscodePrompt } from "@/components/passcode-prompt";
+import { CollisionPrompt } from "@/components/collision-prompt";
+import { SnippetPanel } from "@/components/snippet-panel";
+import { useWebRTC, type PeerState } from "@/hooks/use-webrtc";
+import { useFileTransfer, TransferRefusedError, type TransferTarget } from "@/hooks/use-file-transfer";
+import { useFileReceive } from "@/hooks/use-file-receive";
+import { useSnippets } from "@/hooks/use-snippets";
 import autoOptimizer from "@/lib/auto-optimize";
+import { isRoomCode } from "@/lib/signaling";
+import { registerShortCode, resolvePairingCode } from "@/lib/pairing-api";
+import { requestResumeSync, onResumeRequested } from "@/lib/resume-sync";
+import { PairingCodeError, type PairingErrorReason } from "@/lib/qr-utils";
+import type { ShortAuthString } from "@/lib/sas";
+import { COLLISION_POLICIES, type CollisionPolicy } from "@/lib/filename-policy";
 import { toast } from "@/hooks/use-toast";
 import { 
   Upload, 
@@ -37,10 +51,37 @@ import {
   Video,
   Link,
   Moon,
-  Sun
+  Sun,
+  FolderOpen,
+  ArrowLeftRight,
+  Files,
+  Plus
 } from "lucide-react";
 
-type ViewType = 'role-selection' | 'sender-view' | 'receiver-view' | 'transfer-view' | 'completion-view';
+// session-view: a one-to-one connection where either side can send
+type ViewType = 'role-selection' | 'sender-view' | 'receiver-view' | 'session-view' | 'transfer-view' | 'completion-view';
+type PairingMode = 'qr' | 'room';
+
+const PAIRING_ERROR_TITLES: Record<PairingErrorReason, string> = {
+  expired: "Pairing code expired",
+  'clock-skew': "Device clocks disagree",
+  version: "Incompatible pairing code",
+  corrupt: "Unreadable pairing code",
+  tampered: "Pairing code rejected",
+  replayed: "Code already used",
+  'wrong-type': "Wrong kind of code",
+  'passcode-required': "Passcode required",
+  'wrong-passcode': "Wrong passcode"
+};
+
+// Pairing code problems each get their own title so users know what to fix
+function showPairingError(error: unknown, fallbackTitle: string) {
+  toast({
+    title: error instanceof PairingCodeError ? PAIRING_ERROR_TITLES[error.reason] : fallbackTitle,
+    description: error instanceof Error ? error.message : "Unknown error",
+    variant: "destructive"
+  });
+}
 
 export default function HomePage() {
   const { theme, toggleTheme } = useTheme();
@@ -49,40 +90,215 @@ export default function HomePage() {
   const [turnServer, setTurnServer] = useState('');
   const [pairingCode, setPairingCode] = useState('');
   const [manualCode, setManualCode] = useState('');
+  const [manualAnswerCode, setManualAnswerCode] = useState('');
+  const [answerCode, setAnswerCode] = useState('');
+  const [shortCode, setShortCode] = useState('');
+  const [answerShortCode, setAnswerShortCode] = useState('');
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [showPairingDisplay, setShowPairingDisplay] = useState(false);
+  const [pairingMode, setPairingMode] = useState<PairingMode>('qr');
+  const [saveFolderName, setSaveFolderName] = useState('');
+  // Security codes the user confirmed; a new session key brings a new code, which starts unconfirmed
+  const [confirmedSas, setConfirmedSas] = useState<ShortAuthString[]>([]);
+  // Numeric codes the other devices reported confirming; only those peers are sent to
+  const [peerConfirmedCodes, setPeerConfirmedCodes] = useState<string[]>([]);
+  // Peers whose unverified messages were already reported, so the notice shows once
+  const unverifiedNoticeRef = useRef(new Set<string>());
+  // Resolved offer waiting for the user to type the sender's passcode
+  const [passcodePendingCode, setPasscodePendingCode] = useState<string | null>(null);
+  const [passcodeError, setPasscodeError] = useState('');
+  const [isCheckingPasscode, setIsCheckingPasscode] = useState(false);
+  // Files picked inside a session, and the view to fall back to when it ends
+  const [sessionFiles, setSessionFiles] = useState<File[]>([]);
+  // The one peer whose files and text this side accepts: a receiver's sender, or the session peer
+  const [sessionPeerId, setSessionPeerId] = useState<string | null>(null);
+  // A two-way session opens only once both sides offered one, so a broadcast stays one-way
+  const [sessionOffer, setSessionOffer] = useState<{ peerId: string; origin: 'sender-view' | 'receiver-view' } | null>(null);
+  // Peers that offered a session to this side
+  const [sessionOffers, setSessionOffers] = useState<string[]>([]);
+  const sessionOriginRef = useRef<'sender-view' | 'receiver-view'>('sender-view');
+
+  const {
+    receivedFiles,
+    receiveProgress,
+    receiveSpeed,
+    receiveTimeRemaining,
+    isReceiving,
+    isReceiveComplete,
+    isReceiveResumed,
+    canChooseDirectory,
+    collisionPolicy,
+    setCollisionPolicy,
+    collisionPrompt,
+    answerCollision,
+    handleData,
+    suspendReceive,
+    chooseDirectory,
+    resetReceive
+  } = useFileReceive();
+
+  const {
+    transferProgress,
+    transferSpeed,
+    timeRemaining,
+    receiverProgress,
+    transferFiles,
+    queuedTransfers,
+    isTransferring,
+    startTransfer,
+    enqueueTransfer,
+    cancelTransfer,
+    handleTransferMessage
+  } = useFileTransfer();
+
+  const {
+    snippets,
+    autoCopy,
+    setAutoCopy,
+    sendSnippet,
+    handleSnippetMessage,
+    clearSnippets
+  } = useSnippets();
   
   const { 
+    peers,
     isConnected, 
+    sas,
     connectionState, 
     localPeerCode,
     connect,
     sendData,
+    waitForBuffer,
     createOffer,
-    acceptOffer 
+    cancelOffer,
+    acceptOffer,
+    acceptAnswer,
+    hostRoom,
+    joinRoom,
+    disconnectPeer,
+    disconnect
   } = useWebRTC({
     encryptionKey: encryptionPasscode,
-    turnServer
-  });
+    turnServer,
+    onDataReceived: (data, reply, peerId) => {
+      // The other side checked the code; this side may now send to it
+      if (data?.type === 'sas-confirmed' && typeof data.code === 'string') {
+        setPeerConfirmedCodes(prev => (prev.includes(data.code) ? prev : [...prev, data.code]));
+        if (data.session === true) {
+          setSessionOffers(prev => (prev.includes(peerId) ? prev : [...prev, peerId]));
+        }
+        return;
+      }
 
-  const {
-    transferProgress,
-    transferSpeed,
-    timeRemaining,
-    isTransferring,
-    startTransfer,
-    cancelTransfer
-  } = useFileTransfer();
+      // The sender took back its session offer to add another receiver
+      if (data?.type === 'session-ended') {
+        handleSessionEnded(peerId);
+        return;
+      }
+
+      // Nothing is accepted from a peer before its security code is confirmed
+      const peer = peers.find(candidate => candidate.id === peerId);
+      if (!peer || !isSasConfirmed(peer)) {
+        if (!unverifiedNoticeRef.current.has(peerId)) {
+          unverifiedNoticeRef.current.add(peerId);
+          toast({
+            title: "Confirm the security code",
+            description: "The other device is sending data. Nothing is accepted until you confirm the code matches."
+          });
+        }
+        return;
+      }
+
+      handleTransferMessage(data, peerId);
+      if (data?.type === 'not-accepted') {
+        if (typeof data.snippetId === 'string') {
+          handleSnippetMessage(data);
+          toast({
+            title: "Text not accepted",
+            description: "The other device is not accepting text from this one.",
+            variant: "destructive"
+          });
+        }
+        return;
+      }
+
+      // Broadcast receivers only answer our transfers; anything they start is refused, not dropped
+      if (peerId !== sessionPeerId) {
+        if (data?.type === 'metadata') {
+          reply(JSON.stringify({ type: 'not-accepted', transferId: data.transferId }));
+        } else if (data?.type === 'snippet') {
+          reply(JSON.stringify({ type: 'not-accepted', snippetId: data.id }));
+        }
+        return;
+      }
+      handleData(data, reply);
+      handleSnippetMessage(data);
+    },
+    onSecurityError: (error) => {
+      toast({
+        title: "Secure connection failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
   
   // Auto-optimize on component mount for maximum speed
   useEffect(() => {
     autoOptimizer.optimizeForSpeed();
   }, []);
 
+  // A dropped connection keeps what was received so far; pairing again resumes it
+  const connectionDropped = connectionState === 'disconnected' || connectionState === 'failed';
+  useEffect(() => {
+    if (!connectionDropped || !isReceiving) return;
+
+    suspendReceive();
+    requestResumeSync();
+    setAnswerCode('');
+    setAnswerShortCode('');
+    toast({
+      title: "Connection lost",
+      description: "Received data is kept. Pair with the sender again to resume.",
+      variant: "destructive"
+    });
+  }, [connectionDropped]);
+
+  const isSasConfirmed = (peer: PeerState) => !!peer.sas && confirmedSas.includes(peer.sas);
+  // The other device confirmed the same code, so it will accept what is sent
+  const isPeerConfirmed = (peer: PeerState) => !!peer.sas && peerConfirmedCodes.includes(peer.sas.numeric);
+  // Receiver side: the single peer's code
+  const sasConfirmed = !!sas && confirmedSas.includes(sas);
+
+  // Receivers still pairing (an offer nobody answered yet) are not listed
+  const pairedReceivers = peers.filter(peer => peer.connectionState !== 'new');
+  const awaitingReceiver = pairingMode === 'qr' ? !!localPeerCode : !isConnected;
+
+  // The service worker reports when the network is back
+  useEffect(() => {
+    return onResumeRequested(() => {
+      toast({
+        title: "Back online",
+        description: "Pair again to resume the interrupted transfer."
+      });
+    });
+  }, []);
+
   const handleRoleSelect = (role: 'sender' | 'receiver') => {
     setCurrentView(role === 'sender' ? 'sender-view' : 'receiver-view');
   };
 
+  // Short codes need the pairing registry; static hosting falls back to the full code
+  const tryRegisterShortCode = async (code: string) => {
+    try {
+      const { code: short } = await registerShortCode(code);
+      return short;
+    } catch (error) {
+      console.warn('Short code unavailable, sharing the full pairing code:', error);
+      return '';
+    }
+  };
+
   const handleCreatePairingCode = async () => {
     if (selectedFiles.length === 0) {
       toast({
@@ -96,6 +312,8 @@ export default function HomePage() {
     try {
       const code = await createOffer();
       setPairingCode(code || '');
+      setShortCode(code ? await tryRegisterShortCode(code) : '');
+      setPairingMode('qr');
       setShowPairingDisplay(true);
       toast({
         title: "Pairing code created",
@@ -110,6 +328,99 @@ export default function HomePage() {
     }
   };
 
+  const handleCreateRoom = async () => {
+    if (selectedFiles.length === 0) return;
+
+    try {
+      const code = await hostRoom();
+      setPairingCode(code);
+      setShortCode('');
+      setPairingMode('room');
+      setShowPairingDisplay(true);
+      toast({
+        title: "Room created",
+        description: "Ask the receiver to enter this room code."
+      });
+    } catch (error) {
+      toast({
+        title: "Failed to create room",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleConnect = async (code: string) => {
+    if (isRoomCode(code)) {
+      try {
+        await joinRoom(code);
+        toast({
+          title: "Joined room",
+          description: "Waiting for the sender to connect..."
+        });
+      } catch (error) {
+        toast({
+          title: "Failed to join room",
+          description: error instanceof Error ? error.message : "Unknown error",
+          variant: "destructive"
+        });
+      }
+      return;
+    }
+
+    let offerCode: string;
+    try {
+      // Short codes are one-time, so keep the full code in case a passcode prompt follows
+      offerCode = await resolvePairingCode(code);
+    } catch (error) {
+      showPairingError(error, "Connection failed");
+      return;
+    }
+
+    await connectWithOffer(offerCode, encryptionPasscode);
+  };
+
+  const connectWithOffer = async (offerCode: string, passcode: string) => {
+    try {
+      const answer = await connect(offerCode, passcode);
+      setPasscodePendingCode(null);
+      setAnswerCode(answer || '');
+      setAnswerShortCode(answer ? await tryRegisterShortCode(answer) : '');
+      toast({
+        title: "Answer code created",
+        description: "Show this code to the sender to finish pairing."
+      });
+    } catch (error) {
+      if (error instanceof PairingCodeError && error.reason === 'passcode-required') {
+        setPasscodeError('');
+        setPasscodePendingCode(offerCode);
+        return;
+      }
+
+      // Keep the prompt open so the passcode can be corrected
+      if (error instanceof PairingCodeError && error.reason === 'wrong-passcode' && passcodePendingCode) {
+        setPasscodeError(error.message);
+        return;
+      }
+
+      setPasscodePendingCode(null);
+      showPairingError(error, "Connection failed");
+    }
+  };
+
+  const handleSubmitPasscode = async (passcode: string) => {
+    if (!passcodePendingCode) return;
+
+    setIsCheckingPasscode(true);
+    try {
+      // Remembered for the session key as well as the pairing check
+      setEncryptionPasscode(passcode);
+      await connectWithOffer(passcodePendingCode, passcode);
+    } finally {
+      setIsCheckingPasscode(false);
+    }
+  };
+
   const handleConnectWithCode = async () => {
     if (!manualCode.trim()) {
       toast({
@@ -120,36 +431,299 @@ export default function HomePage() {
       return;
     }
 
-    try {
-      await connect(manualCode.trim());
+    await handleConnect(manualCode.trim());
+  };
+
+  const handleAcceptAnswer = async (code: string) => {
+    if (!code.trim()) {
       toast({
-        title: "Connected successfully",
-        description: "Ready to receive files."
+        title: "Invalid code",
+        description: "Please enter the receiver's answer code.",
+        variant: "destructive"
       });
-    } catch (error) {
+      return;
+    }
+
+    try {
+      await acceptAnswer(await resolvePairingCode(code.trim()));
+      setManualAnswerCode('');
       toast({
-        title: "Connection failed",
-        description: error instanceof Error ? error.message : "Unknown error",
-        variant: "destructive"
+        title: "Answer accepted",
+        description: "Establishing a direct connection..."
       });
+    } catch (error) {
+      showPairingError(error, "Failed to accept answer");
     }
   };
 
+  // Tells the peer too, since it holds back its data until this side has confirmed,
+  // along with whether this side would open a two-way session with it
+  const handleConfirmSas = (peer: PeerState, session: boolean) => {
+    const confirmed = peer.sas;
+    if (!confirmed) return;
+    setConfirmedSas(prev => [...prev, confirmed]);
+    sendData(peer.id, JSON.stringify({ type: 'sas-confirmed', code: confirmed.numeric, session }));
+  };
+
+  // A mismatch means someone else is in the middle; drop the connection
+  const handleRejectSas = () => {
+    disconnect();
+    setShowPairingDisplay(false);
+    setAnswerCode('');
+    setAnswerShortCode('');
+    toast({
+      title: "Connection rejected",
+      description: "The security codes did not match. Pair again over a channel you trust.",
+      variant: "destructive"
+    });
+  };
+
+  // On the sender only that receiver is dropped; the others stay paired
+  const handleRejectReceiver = (peer: PeerState) => {
+    disconnectPeer(peer.id);
+    toast({
+      title: "Connection rejected",
+      description: `The security codes for ${peer.label} did not match. Pair it again over a channel you trust.`,
+      variant: "destructive"
+    });
+  };
+
+  const handleCancelSharing = () => {
+    disconnect();
+    setShowPairingDisplay(false);
+    setPairingCode('');
+    setShortCode('');
+    setManualAnswerCode('');
+  };
+
+  // With receivers already paired, cancelling the open offer keeps them
+  const handleCancelOffer = () => {
+    if (pairedReceivers.length === 0) {
+      handleCancelSharing();
+      return;
+    }
+    cancelOffer();
+    setPairingCode('');
+    setShortCode('');
+    setManualAnswerCode('');
+  };
+
+  // Only verified peers get files
+  const getReadyTargets = (): TransferTarget[] => peers
+    .filter(peer => peer.isConnected && isSasConfirmed(peer) && isPeerConfirmed(peer))
+    .map(peer => ({
+      id: peer.id,
+      label: peer.label,
+      sendData: data => sendData(peer.id, data),
+      waitForBuffer: signal => waitForBuffer(peer.id, signal)
+    }));
+
   const handleStartTransfer = async () => {
     if (!isConnected || selectedFiles.length === 0) return;
 
+    const targets = getReadyTargets();
+    if (targets.length === 0) {
+      toast({
+        title: "Verify the connection first",
+        description: peers.some(isSasConfirmed)
+          ? "Waiting for the receiver to confirm the security code on its side."
+          : "Confirm that both devices show the same security code.",
+        variant: "destructive"
+      });
+      return;
+    }
+
     setCurrentView('transfer-view');
     try {
-      await startTransfer(selectedFiles, sendData);
+      await startTransfer(selectedFiles, targets);
     } catch (error) {
+      if (error instanceof TransferRefusedError) {
+        setCurrentView('sender-view');
+        toast({
+          title: "Files not accepted",
+          description: error.message,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      // Keep the selection: pairing again with the same files resumes the transfer
+      disconnect();
+      requestResumeSync();
+      setShowPairingDisplay(false);
+      setCurrentView('sender-view');
       toast({
-        title: "Transfer failed",
+        title: "Transfer interrupted",
+        description: `${error instanceof Error ? error.message : "Unknown error"}. Pair again to resume where it stopped.`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const sendInSession = async (files: File[], targets: TransferTarget[]) => {
+    try {
+      await enqueueTransfer(files, targets);
+    } catch (error) {
+      // Still connected; the batches queued behind it would be refused as well
+      if (error instanceof TransferRefusedError) {
+        cancelTransfer();
+        toast({
+          title: "Files not accepted",
+          description: error.message,
+          variant: "destructive"
+        });
+        return;
+      }
+
+      // The connection is gone, so the batches still queued behind it go too
+      cancelTransfer();
+      disconnect();
+      requestResumeSync();
+      setShowPairingDisplay(false);
+      setSessionFiles([]);
+      setSessionPeerId(null);
+      setCurrentView(sessionOriginRef.current);
+      toast({
+        title: "Transfer interrupted",
+        description: `${error instanceof Error ? error.message : "Unknown error"}. Pair again to resume where it stopped.`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleSessionSend = () => {
+    if (sessionFiles.length === 0) return;
+
+    const targets = getReadyTargets();
+    if (targets.length === 0) {
+      toast({
+        title: sessionPeerAwaiting ? "Not confirmed yet" : "Not connected",
+        description: sessionPeerAwaiting
+          ? "The other device has not confirmed the security code yet."
+          : "The other device is no longer in this session.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const files = sessionFiles;
+    setSessionFiles([]);
+    sendInSession(files, targets);
+  };
+
+  const handleSendSnippet = (text: string) => {
+    const [target] = getReadyTargets();
+    try {
+      if (!target || !sendSnippet(text, target.sendData)) {
+        throw new Error("The other device is no longer in this session");
+      }
+      return true;
+    } catch (error) {
+      toast({
+        title: "Could not send text",
         description: error instanceof Error ? error.message : "Unknown error",
         variant: "destructive"
       });
+      return false;
+    }
+  };
+
+  const sessionPeer = peers.find(peer => peer.id === sessionPeerId);
+  // Receiver side: the sender it paired with
+  const senderPeer = peers.find(peer => !!sas && peer.sas === sas);
+  // Connected, but the other device has not confirmed the code yet
+  const sessionPeerAwaiting = !!sessionPeer?.isConnected && !isPeerConfirmed(sessionPeer);
+
+  // Opens once both sides offered it, whichever confirmed the code last
+  useEffect(() => {
+    if (!sessionOffer || currentView !== sessionOffer.origin) return;
+    if (!sessionOffers.includes(sessionOffer.peerId)) return;
+
+    sessionOriginRef.current = sessionOffer.origin;
+    if (sessionOffer.origin === 'sender-view') {
+      // The files already picked are ready to send there
+      setSessionFiles(selectedFiles);
+    }
+    setSessionPeerId(sessionOffer.peerId);
+    setCurrentView('session-view');
+  }, [sessionOffer, sessionOffers, currentView]);
+
+  // A receiver always offers a session; files from its sender are accepted either way
+  const handleConfirmSender = () => {
+    if (!senderPeer) return;
+    handleConfirmSas(senderPeer, true);
+    setSessionPeerId(senderPeer.id);
+    setSessionOffer({ peerId: senderPeer.id, origin: 'receiver-view' });
+  };
+
+  // The sender offers one only to a lone receiver with no other code open
+  const handleConfirmReceiver = (peer: PeerState) => {
+    const oneToOne = pairedReceivers.length === 1 && !awaitingReceiver;
+    handleConfirmSas(peer, oneToOne);
+    if (oneToOne) {
+      setSessionOffer({ peerId: peer.id, origin: 'sender-view' });
+    }
+  };
+
+  // Withdraws the session offer, leaving a one-way broadcast, and opens a code for another receiver
+  const handleAddReceiver = () => {
+    if (sessionOffer) {
+      sendData(sessionOffer.peerId, JSON.stringify({ type: 'session-ended' }));
+    }
+    setSessionOffer(null);
+    setSessionPeerId(null);
+    setSessionFiles([]);
+    setCurrentView('sender-view');
+    handleCreatePairingCode();
+  };
+
+  // Receiver side: back to receiving only; what the sender still sends keeps arriving
+  const handleSessionEnded = (peerId: string) => {
+    setSessionOffers(prev => prev.filter(id => id !== peerId));
+    if (peerId !== sessionPeerId || currentView !== 'session-view') return;
+
+    cancelTransfer();
+    setSessionFiles([]);
+    setCurrentView(sessionOriginRef.current);
+    toast({
+      title: "Session ended",
+      description: "The sender added another receiver. Its files still arrive here, but this device can no longer send back."
+    });
+  };
+
+  const handleChooseDirectory = async () => {
+    try {
+      setSaveFolderName(await chooseDirectory());
+    } catch (error) {
+      toast({
+        title: "No folder selected",
+        description: error instanceof Error ? error.message : "Files will be saved with your browser's default method.",
+        variant: "destructive"
+      });
     }
   };
 
+  const handleReceiveDone = () => {
+    disconnect();
+    resetReceive();
+    setSessionPeerId(null);
+    setSessionOffer(null);
+    setSessionOffers([]);
+    setAnswerCode('');
+    setAnswerShortCode('');
+    setManualCode('');
+  };
+
+  const handleEndSession = () => {
+    cancelTransfer();
+    handleReceiveDone();
+    handleCancelSharing();
+    setSessionFiles([]);
+    setSelectedFiles([]);
+    clearSnippets();
+    setCurrentView('role-selection');
+  };
+
   const copyToClipboard = async (text: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -311,6 +885,22 @@ export default function HomePage() {
                         data-testid="input-turn-server"
                       />
                     </div>
+                    <div>
+                      <Label className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        <Files className="mr-2 h-4 w-4" />
+                        When a Received File Already Exists
+                      </Label>
+                      <Select value={collisionPolicy} onValueChange={(value) => setCollisionPolicy(value as CollisionPolicy)}>
+                        <SelectTrigger className="glass" data-testid="select-collision-policy">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {COLLISION_POLICIES.map(({ value, label }) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -341,18 +931,75 @@ export default function HomePage() {
                   selectedFiles={selectedFiles}
                   onFilesSelected={setSelectedFiles}
                   onCreatePairingCode={handleCreatePairingCode}
+                  onCreateRoom={handleCreateRoom}
                 />
               ) : (
-                <QrCodeDisplay
-                  pairingCode={pairingCode}
-                  onCopy={copyToClipboard}
-                  onCancel={() => {
-                    setShowPairingDisplay(false);
-                    setPairingCode('');
-                  }}
-                  isConnected={isConnected}
-                  onStartTransfer={handleStartTransfer}
-                />
+                <>
+                  {pairedReceivers.length > 0 && (
+                    <ReceiverList
+                      receivers={pairedReceivers}
+                      isConfirmed={isSasConfirmed}
+                      isPeerConfirmed={isPeerConfirmed}
+                      onConfirm={handleConfirmReceiver}
+                      onReject={handleRejectReceiver}
+                      onRemove={peer => disconnectPeer(peer.id)}
+                      onAddReceiver={pairingMode === 'qr' && !awaitingReceiver ? handleAddReceiver : undefined}
+                      onStartTransfer={handleStartTransfer}
+                      onCancel={handleCancelSharing}
+                    />
+                  )}
+
+                  {awaitingReceiver && (
+                    <QrCodeDisplay
+                      pairingCode={pairingCode}
+                      shortCode={shortCode}
+                      onCopy={copyToClipboard}
+                      onCancel={handleCancelOffer}
+                      isConnected={false}
+                      title={pairingMode === 'room'
+                        ? "Room Code Created"
+                        : pairedReceivers.length > 0 ? "Pairing Code for the Next Receiver" : undefined}
+                      waitingMessage={pairingMode === 'room'
+                        ? "Waiting for the receiver to join the room..."
+                        : "Waiting for the receiver's answer code..."}
+                    />
+                  )}
+
+                  {awaitingReceiver && pairingMode === 'qr' && (
+                    <div className="grid lg:grid-cols-2 gap-6">
+                      <QrScanner title="Scan Answer Code" onCodeScanned={handleAcceptAnswer} />
+
+                      <Card className="glass">
+                        <CardContent className="p-6">
+                          <h3 className="text-xl font-semibold mb-4 text-gray-800 dark:text-white flex items-center">
+                            <Keyboard className="mr-3 text-emerald-500" />
+                            Enter Answer Code
+                          </h3>
+
+                          <div className="space-y-4 mb-4">
+                            <Input
+                              type="text"
+                              value={manualAnswerCode}
+                              onChange={(e) => setManualAnswerCode(e.target.value)}
+                              placeholder="ABC-DEF-123 or the full answer code"
+                              className="text-center font-mono text-lg glass"
+                              data-testid="input-answer-code"
+                            />
+                          </div>
+
+                          <Button
+                            onClick={() => handleAcceptAnswer(manualAnswerCode)}
+                            className="w-full bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700"
+                            data-testid="button-accept-answer"
+                          >
+                            <Link className="mr-2 h-4 w-4" />
+                            Connect
+                          </Button>
+                        </CardContent>
+                      </Card>
+                    </div>
+                  )}
+                </>
               )}
             </div>
           )}
@@ -376,59 +1023,270 @@ export default function HomePage() {
                 </div>
               </div>
 
-              <div className="grid lg:grid-cols-2 gap-6">
-                <QrScanner onCodeScanned={connect} />
+              {answerCode && !isConnected && (
+                <QrCodeDisplay
+                  pairingCode={answerCode}
+                  shortCode={answerShortCode}
+                  onCopy={copyToClipboard}
+                  onCancel={() => {
+                    disconnect();
+                    setAnswerCode('');
+                    setAnswerShortCode('');
+                  }}
+                  isConnected={isConnected}
+                  title="Answer Code Generated"
+                  waitingMessage="Waiting for the sender to scan this code..."
+                />
+              )}
+
+              {!answerCode && !isConnected && (
+                <div className="grid lg:grid-cols-2 gap-6">
+                  <QrScanner onCodeScanned={handleConnect} />
 
-                <Card className="glass">
-                  <CardContent className="p-6">
-                    <h3 className="text-xl font-semibold mb-4 text-gray-800 dark:text-white flex items-center">
-                      <Keyboard className="mr-3 text-emerald-500" />
-                      Enter Pairing Code
-                    </h3>
+                  <Card className="glass">
+                    <CardContent className="p-6">
+                      <h3 className="text-xl font-semibold mb-4 text-gray-800 dark:text-white flex items-center">
+                        <Keyboard className="mr-3 text-emerald-500" />
+                        Enter Pairing Code
+                      </h3>
                     
-                    <div className="space-y-4 mb-4">
-                      <Input
-                        type="text"
-                        value={manualCode}
-                        onChange={(e) => setManualCode(e.target.value)}
-                        placeholder="ABC-DEF-123"
-                        className="text-center font-mono text-lg glass"
-                        style={{ letterSpacing: '0.1em' }}
-                        data-testid="input-pairing-code"
-                      />
-                    </div>
+                      <div className="space-y-4 mb-4">
+                        <Input
+                          type="text"
+                          value={manualCode}
+                          onChange={(e) => setManualCode(e.target.value)}
+                          placeholder="ABC-DEF-123"
+                          className="text-center font-mono text-lg glass"
+                          style={{ letterSpacing: '0.1em' }}
+                          data-testid="input-pairing-code"
+                        />
+                      </div>
                     
-                    <Button
-                      onClick={handleConnectWithCode}
-                      className="w-full bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700"
-                      data-testid="button-connect-code"
-                    >
-                      <Link className="mr-2 h-4 w-4" />
-                      Connect
-                    </Button>
-                  </CardContent>
-                </Card>
-              </div>
+                      <Button
+                        onClick={handleConnectWithCode}
+                        className="w-full bg-gradient-to-r from-emerald-500 to-emerald-600 hover:from-emerald-600 hover:to-emerald-700"
+                        data-testid="button-connect-code"
+                      >
+                        <Link className="mr-2 h-4 w-4" />
+                        Connect
+                      </Button>
+                    </CardContent>
+                  </Card>
+                </div>
+              )}
 
-              {isConnected && (
+              <PasscodePrompt
+                open={passcodePendingCode !== null}
+                error={passcodeError}
+                isChecking={isCheckingPasscode}
+                onSubmit={handleSubmitPasscode}
+                onCancel={() => setPasscodePendingCode(null)}
+              />
+
+              {isConnected && receivedFiles.length === 0 && (
                 <Card className="glass">
                   <CardContent className="p-6 text-center">
                     <div className="w-16 h-16 bg-gradient-to-br from-green-400 to-green-600 rounded-full flex items-center justify-center mx-auto mb-4">
                       <Check className="text-white text-xl" />
                     </div>
                     <h3 className="text-xl font-semibold text-gray-800 dark:text-white mb-2">Connected Successfully!</h3>
-                    <p className="text-gray-600 dark:text-gray-300 mb-4">Ready to receive files</p>
+                    <p className="text-gray-600 dark:text-gray-300 mb-4">
+                      {sasConfirmed ? "Ready to receive files" : "Confirm the security code to continue"}
+                    </p>
                     
-                    <div className="flex items-center justify-center space-x-2 text-green-600 dark:text-green-400">
+                    <div className="flex items-center justify-center space-x-2 text-green-600 dark:text-green-400 mb-6">
                       <Wifi className="h-4 w-4" />
                       <span>Secure P2P connection established</span>
                     </div>
+
+                    <SasVerification
+                      sas={sas}
+                      confirmed={sasConfirmed}
+                      awaitingPeer={!!senderPeer && !isPeerConfirmed(senderPeer)}
+                      onConfirm={handleConfirmSender}
+                      onReject={handleRejectSas}
+                    />
+
+                    {canChooseDirectory && (
+                      <Button
+                        variant="secondary"
+                        onClick={handleChooseDirectory}
+                        data-testid="button-choose-save-folder"
+                      >
+                        <FolderOpen className="mr-2 h-4 w-4" />
+                        {saveFolderName ? `Saving to ${saveFolderName}` : "Choose Save Folder"}
+                      </Button>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {receivedFiles.length > 0 && !isReceiveComplete && (
+                <TransferProgress
+                  title={!isConnected ? "Transfer Paused" : isReceiveResumed ? "Resuming Transfer" : "Receiving Files"}
+                  progress={receiveProgress}
+                  speed={receiveSpeed}
+                  timeRemaining={receiveTimeRemaining}
+                  files={receivedFiles}
+                  fileProgress={receivedFiles.map(file =>
+                    file.status === 'saved' ? 100 : file.size > 0 ? (file.received / file.size) * 100 : 0
+                  )}
+                  onCancel={handleReceiveDone}
+                />
+              )}
+
+              {isReceiveComplete && (
+                <Card className="glass text-center">
+                  <CardContent className="p-8">
+                    <div className="w-24 h-24 bg-gradient-to-br from-green-400 to-green-600 rounded-full flex items-center justify-center mx-auto mb-6">
+                      <Check className="text-white text-3xl" />
+                    </div>
+
+                    <h2 className="text-3xl font-bold text-gray-800 dark:text-white mb-4">
+                      Files Received!
+                    </h2>
+
+                    <p className="text-lg text-gray-600 dark:text-gray-300 mb-6">
+                      Saved <span className="font-semibold text-emerald-600 dark:text-emerald-400">
+                        {receivedFiles.filter(file => file.status === 'saved').length} of {receivedFiles.length} files
+                      </span>
+                      {receivedFiles.some(file => file.status === 'skipped') && (
+                        <> ({receivedFiles.filter(file => file.status === 'skipped').length} skipped, a file with that name already exists)</>
+                      )}
+                    </p>
+
+                    <Button
+                      variant="secondary"
+                      onClick={() => {
+                        handleReceiveDone();
+                        setCurrentView('role-selection');
+                      }}
+                      data-testid="button-receive-done"
+                    >
+                      <Home className="mr-2 h-4 w-4" />
+                      Back to Home
+                    </Button>
                   </CardContent>
                 </Card>
               )}
             </div>
           )}
 
+          {/* Session View */}
+          {currentView === 'session-view' && (
+            <div className="space-y-6">
+              <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="ghost"
+                    onClick={handleEndSession}
+                    className="text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-white"
+                    data-testid="button-end-session"
+                  >
+                    <X className="mr-2 h-4 w-4" />
+                    End Session
+                  </Button>
+                  {sessionOriginRef.current === 'sender-view' && pairingMode === 'qr' && (
+                    <Button
+                      variant="secondary"
+                      onClick={handleAddReceiver}
+                      disabled={isReceiving}
+                      data-testid="button-session-add-receiver"
+                    >
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Receiver
+                    </Button>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2 text-sm text-gray-500 dark:text-gray-400">
+                  <ArrowLeftRight className="h-4 w-4" />
+                  <span>Two-Way Session</span>
+                  <span className={isConnected ? "text-green-600 dark:text-green-400" : "text-red-500"}>
+                    {isConnected ? "Connected" : "Disconnected"}
+                  </span>
+                </div>
+              </div>
+
+              {sessionPeerAwaiting && (
+                <p className="text-sm text-yellow-600 dark:text-yellow-400 text-center" data-testid="text-session-awaiting-peer">
+                  Waiting for the other device to confirm the security code before anything can be sent.
+                </p>
+              )}
+
+              <SnippetPanel
+                snippets={snippets}
+                autoCopy={autoCopy}
+                onAutoCopyChange={setAutoCopy}
+                onSend={handleSendSnippet}
+              />
+
+              {/* Outgoing */}
+              {transferFiles.length > 0 && (
+                <TransferProgress
+                  title={isTransferring ? "Sending Files" : "Files Sent"}
+                  progress={transferProgress}
+                  speed={transferSpeed}
+                  timeRemaining={timeRemaining}
+                  files={transferFiles}
+                  onCancel={isTransferring ? cancelTransfer : undefined}
+                />
+              )}
+
+              {queuedTransfers.length > 0 && (
+                <p className="text-sm text-gray-600 dark:text-gray-300 text-center" data-testid="text-queued-transfers">
+                  {queuedTransfers.length === 1
+                    ? `1 more batch (${queuedTransfers[0].length} files) queued`
+                    : `${queuedTransfers.length} more batches queued`}
+                </p>
+              )}
+
+              <FileSelector
+                title="Send Files"
+                selectedFiles={sessionFiles}
+                onFilesSelected={setSessionFiles}
+                onSend={handleSessionSend}
+              />
+
+              {/* Incoming */}
+              {receivedFiles.length > 0 ? (
+                <TransferProgress
+                  title={isReceiveComplete ? "Files Received" : !isConnected ? "Transfer Paused" : isReceiveResumed ? "Resuming Transfer" : "Receiving Files"}
+                  progress={receiveProgress}
+                  speed={receiveSpeed}
+                  timeRemaining={receiveTimeRemaining}
+                  files={receivedFiles}
+                  fileProgress={receivedFiles.map(file =>
+                    file.status === 'saved' ? 100 : file.size > 0 ? (file.received / file.size) * 100 : 0
+                  )}
+                />
+              ) : (
+                <Card className="glass">
+                  <CardContent className="p-6 text-center">
+                    <p className="text-gray-600 dark:text-gray-300 mb-4">
+                      Files the other device sends appear here.
+                    </p>
+                    {canChooseDirectory && (
+                      <Button
+                        variant="secondary"
+                        onClick={handleChooseDirectory}
+                        data-testid="button-session-save-folder"
+                      >
+                        <FolderOpen className="mr-2 h-4 w-4" />
+                        {saveFolderName ? `Saving to ${saveFolderName}` : "Choose Save Folder"}
+                      </Button>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {isReceiveComplete && receivedFiles.some(file => file.status === 'skipped') && (
+                <p className="text-sm text-gray-600 dark:text-gray-300 text-center" data-testid="text-skipped-files">
+                  {receivedFiles.filter(file => file.status === 'skipped').length} skipped, a file with that name already exists
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Transfer View */}
           {currentView === 'transfer-view' && (
             <TransferProgress
@@ -436,6 +1294,7 @@ export default function HomePage() {
               speed={transferSpeed}
               timeRemaining={timeRemaining}
               files={selectedFiles}
+              receivers={receiverProgress}
               onCancel={cancelTransfer}
               onComplete={() => setCurrentView('completion-view')}
             />
@@ -490,6 +1349,9 @@ export default function HomePage() {
           )}
         </main>
 
+        {/* Asked while a transfer is being set up, in the receiver or a session */}
+        <CollisionPrompt path={collisionPrompt} onAnswer={answerCollision} />
+
         {/* Footer */}
         <footer className="mt-12 text-center text-gray-500 dark:text-gray-400 text-sm">
           <div className="flex flex-col sm:flex-row items-center justify-center space-y-2 sm:space-y-0 sm:space-x-6">
@@ -0,0 +1,90 @@
+// Type declarations for the shared StorageManager so the React app can reuse it
+import type { ByteRange } from '../lib/byte-ranges';
+import type { CollisionChoice, CollisionPolicy } from '../lib/filename-policy';
+
+export interface ManifestFileInfo {
+  id: number;
+  name: string;
+  // '/'-separated path inside the shared folder, as sent by the peer;
+  // sanitized by prepareReceive before it is used
+  path?: string;
+  size: number;
+  type: string;
+}
+
+export interface ReceiveManifest {
+  transferId?: string;
+  files: ManifestFileInfo[];
+}
+
+export interface PrepareReceiveResult {
+  resumed: boolean;
+  // Byte ranges already received for unfinished files, keyed by file id
+  received: Record<number, ByteRange[]>;
+  // Files saved in an earlier session, plus the skipped ones
+  completed: number[];
+  // Files left out because their name was taken
+  skipped: number[];
+}
+
+export interface PrepareReceiveOptions {
+  // Defaults to 'rename'
+  collisionPolicy?: CollisionPolicy;
+  // Called per taken path under the 'ask' policy
+  onCollision?: (path: string) => Promise<CollisionChoice>;
+}
+
+export type SaveMethod = 'fsaccess' | 'opfs' | 'webshare' | 'download' | 'zip';
+
+export interface SaveResult {
+  method: SaveMethod;
+  path?: string;
+  fileName?: string;
+  fileHandle?: FileSystemFileHandle;
+  // Hex SHA-256 of the saved file
+  sha256?: string;
+  // Not written because the name was taken and the policy said to skip it
+  skipped?: boolean;
+}
+
+export interface StorageInfo {
+  hasDirectory: boolean;
+  directoryName: string | null;
+  capabilities: {
+    fileSystemAccess: boolean;
+    webShare: boolean;
+    opfs: boolean;
+    download: boolean;
+  };
+  tempFiles: number;
+}
+
+export class StorageManager {
+  fsAccessSupported: boolean;
+  webShareSupported: boolean;
+  opfsSupported: boolean;
+  directoryHandle: FileSystemDirectoryHandle | null;
+  collisionPolicy: CollisionPolicy;
+
+  init(): Promise<void>;
+  getAvailableMethods(): StorageInfo['capabilities'];
+  setDirectoryHandle(handle: FileSystemDirectoryHandle): Promise<void>;
+  prepareReceive(manifest: ReceiveManifest, options?: PrepareReceiveOptions): Promise<PrepareReceiveResult>;
+  getReceivedRanges(): Record<number, ByteRange[]>;
+  suspendReceive(): Promise<void>;
+  writeChunk(fileId: number, offset: number, chunkData: ArrayBuffer | Uint8Array): Promise<void>;
+  // The gap a streamed download is waiting on, reported once per stall
+  takeStalledGap(fileId: number): Promise<ByteRange | null>;
+  // Distinct bytes held for an unfinished file
+  getReceivedBytes(fileId: number): number;
+  isFileComplete(fileId: number): boolean;
+  // Rejects without saving when expectedHash is given and does not match
+  finalizeFile(fileId: number, fileInfo: ManifestFileInfo, expectedHash?: string): Promise<SaveResult>;
+  saveFile(fileName: string, fileData: BlobPart, mimeType?: string): Promise<SaveResult>;
+  // Closes the ZIP download of a transfer that ended with files missing
+  completeReceive(): Promise<void>;
+  calculateFileHash(fileId: number): Promise<string>;
+  // First "name (n).ext" free on disk and not in claimed (lower-cased paths)
+  findFreePath(rootHandle: FileSystemDirectoryHandle | null, path: string, claimed?: Set<string>): Promise<string>;
+  getStorageInfo(): StorageInfo;
+}
@@ -1,4 +1,23 @@
 // Storage Management for File Saving
+import { addRange, coveredBytes, isRangeComplete, isRangeCovered } from '../lib/byte-ranges.ts';
+import { Sha256, hashBlob } from '../lib/sha256.ts';
+import { sanitizeRelativePath, splitPath, baseName } from '../lib/file-paths.ts';
+import { ZipWriter } from '../lib/zip-stream.ts';
+import { createDownloadStream, isStreamDownloadSupported, SequentialWriter } from '../lib/stream-download.ts';
+import { getAlternativeName } from '../lib/filename-policy.ts';
+
+// A folder sent as a whole is named after it; anything else after the time
+function getArchiveName(files) {
+  const roots = new Set(files.map(file => splitPath(file.path).folders[0]));
+  const [root] = Array.from(roots);
+  if (roots.size === 1 && root) {
+    return `${root}.zip`;
+  }
+  
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+  return `beamshare-${stamp}.zip`;
+}
+
 export class StorageManager {
   constructor() {
     this.fsAccessSupported = 'showDirectoryPicker' in window;
@@ -7,6 +26,20 @@ export class StorageManager {
     
     this.directoryHandle = null;
     this.tempFiles = new Map();
+    
+    // Resumable transfer state
+    this.transferId = null;
+    this.manifestFiles = [];
+    this.completedFiles = new Set();
+    this.fileHashes = new Map();
+    
+    // Streamed ZIP download for receivers without a folder to write into
+    this.archive = null;
+    this.archivedFiles = new Set();
+    
+    // What happens to a received file whose name is already taken
+    this.collisionPolicy = 'rename';
+    this.onCollision = null;
   }
   
   // Initialize storage and check capabilities
@@ -27,50 +60,200 @@ export class StorageManager {
     };
   }
   
-  // Choose directory for saving files
-  async chooseDirectory() {
-    if (!this.fsAccessSupported) {
-      throw new Error('File System Access API not supported');
-    }
+  // Use a folder the user picked for saving files. The picker itself is opened
+  // by the receive UI, since browsers only show it from a click
+  async setDirectoryHandle(handle) {
+    this.directoryHandle = handle;
     
-    try {
-      this.directoryHandle = await window.showDirectoryPicker({
-        mode: 'readwrite'
-      });
-      
-      // Save handle for future use
-      await this.saveDirectoryHandle();
-      
-      return this.directoryHandle;
-    } catch (error) {
-      if (error.name === 'AbortError') {
-        throw new Error('Directory selection cancelled');
-      }
-      throw error;
-    }
+    // Save handle for future use
+    await this.saveDirectoryHandle();
   }
   
-  // Prepare for receiving files
-  async prepareReceive(manifest) {
+  // Prepare for receiving files; returns the byte ranges already on hand.
+  // options.onCollision answers the 'ask' policy for one path at a time
+  async prepareReceive(manifest, options = {}) {
     console.log('Preparing to receive files:', manifest);
     
-    // If we don't have a directory handle and FS Access is supported, prompt for one
-    if (this.fsAccessSupported && !this.directoryHandle) {
+    // Without a folder chosen beforehand, files go to the fallback methods
+    const transferId = manifest.transferId || null;
+    
+    // Same transfer reconnecting within this page: keep everything as is
+    if (transferId && transferId === this.transferId) {
+      return { resumed: true, received: this.getReceivedRanges(), completed: Array.from(this.completedFiles), skipped: [] };
+    }
+    
+    this.collisionPolicy = options.collisionPolicy || 'rename';
+    this.onCollision = options.onCollision || null;
+    
+    // Whatever the previous transfer put in its archive is kept
+    await this.completeReceive();
+    
+    const saved = transferId ? await this.loadTransferState(transferId) : null;
+    if (!saved) {
+      // Leftovers from an earlier session are no longer needed
+      await this.discardTransferState();
+      await this.clearIncomingDirectory();
+    }
+    
+    this.transferId = transferId;
+    // Paths come from the peer; they never leave the chosen folder
+    this.manifestFiles = manifest.files.map(fileInfo => ({
+      ...fileInfo,
+      path: sanitizeRelativePath(fileInfo.path || fileInfo.name)
+    }));
+    this.completedFiles = new Set(saved ? saved.completed : []);
+    this.fileHashes.clear();
+    this.tempFiles.clear();
+    this.archivedFiles.clear();
+    
+    // One archive download instead of a prompt per file
+    if (!this.directoryHandle && this.manifestFiles.length > 1 && isStreamDownloadSupported()) {
       try {
-        await this.chooseDirectory();
+        const output = await createDownloadStream(getArchiveName(this.manifestFiles), { mimeType: 'application/zip' });
+        this.archive = new ZipWriter(output);
       } catch (error) {
-        console.warn('Failed to choose directory, will use fallback methods:', error);
+        console.warn('Cannot stream a ZIP archive, saving files one by one:', error);
       }
     }
     
     // Prepare temp storage for each file
-    for (const fileInfo of manifest.files) {
+    // Files being resumed keep their names; nothing new may take them
+    const claimed = new Set(Object.values(saved?.partials || {})
+      .filter(partial => partial.path)
+      .map(partial => partial.path.toLowerCase()));
+    const skipped = [];
+    for (const fileInfo of this.manifestFiles) {
+      if (this.completedFiles.has(fileInfo.id)) continue;
+      
+      // A resumed file continues under the name it was given last time
+      const partial = saved?.partials[fileInfo.id];
+      if (partial?.path) {
+        fileInfo.path = partial.path;
+      }
+      const ranges = partial && await this.verifyPartialFile(fileInfo, partial) ? partial.ranges : [];
+      
+      if (ranges.length === 0) {
+        const path = await this.resolveCollision(fileInfo.path, claimed);
+        if (path === null) {
+          // Counted as done so the sender leaves it out
+          this.completedFiles.add(fileInfo.id);
+          skipped.push(fileInfo.id);
+          continue;
+        }
+        fileInfo.path = path;
+      }
+      claimed.add(fileInfo.path.toLowerCase());
+      
       this.tempFiles.set(fileInfo.id, {
         ...fileInfo,
         chunks: [],
-        received: 0
+        ranges,
+        received: coveredBytes(ranges),
+        // Partial data on disk must be reopened where it was written
+        target: ranges.length > 0 ? partial.target : null,
+        // Hashes the contiguous prefix as it arrives
+        hasher: ranges.length > 0 && partial.hash ? Sha256.fromState(partial.hash) : new Sha256(),
+        stream: null
       });
     }
+    
+    if (this.completedFiles.size === this.manifestFiles.length) {
+      await this.discardTransferState();
+    }
+    
+    return {
+      resumed: !!saved,
+      received: this.getReceivedRanges(),
+      completed: Array.from(this.completedFiles),
+      skipped
+    };
+  }
+  
+  // Path a new file is saved under, or null to skip it. Names taken by an
+  // earlier file of the same transfer are always renamed; names already in the
+  // chosen folder follow the collision policy
+  async resolveCollision(path, claimed) {
+    const inTransfer = claimed.has(path.toLowerCase());
+    if (!inTransfer && !(this.directoryHandle && await this.pathExists(this.directoryHandle, path))) {
+      return path;
+    }
+    
+    const choice = inTransfer ? 'rename' : await this.getCollisionChoice(path);
+    if (choice === 'skip') return null;
+    if (choice === 'overwrite') return path;
+    return this.findFreePath(this.directoryHandle, path, claimed);
+  }
+  
+  // The policy's answer for one taken path, asking the user if need be
+  async getCollisionChoice(path) {
+    if (this.collisionPolicy !== 'ask') return this.collisionPolicy;
+    return this.onCollision ? await this.onCollision(path) : 'rename';
+  }
+  
+  // First "name (n).ext" free both on disk and within the transfer
+  async findFreePath(rootHandle, path, claimed = new Set()) {
+    const { folders, name } = splitPath(path);
+    for (let attempt = 1; ; attempt++) {
+      const candidate = [...folders, getAlternativeName(name, attempt)].join('/');
+      if (claimed.has(candidate.toLowerCase())) continue;
+      if (rootHandle && await this.pathExists(rootHandle, candidate)) continue;
+      return candidate;
+    }
+  }
+  
+  async pathExists(rootHandle, path) {
+    try {
+      await this.getFileHandleAt(rootHandle, path);
+      return true;
+    } catch (error) {
+      // A folder of that name is in the way just the same
+      if (error.name === 'TypeMismatchError') return true;
+      if (error.name !== 'NotFoundError') {
+        console.warn(`Cannot check whether ${path} exists:`, error);
+      }
+      return false;
+    }
+  }
+  
+  // Byte ranges held for each unfinished file, keyed by file id
+  getReceivedRanges() {
+    const received = {};
+    
+    for (const file of this.tempFiles.values()) {
+      received[file.id] = file.ranges;
+    }
+    
+    return received;
+  }
+  
+  // Commit partially written files to disk so a later session can resume them
+  async suspendReceive() {
+    for (const file of this.tempFiles.values()) {
+      const stream = await file.stream;
+      if (!stream) continue;
+      
+      file.stream = null;
+      
+      // A download cannot be reopened where it stopped; the file starts over
+      if (stream.target === 'download') {
+        await stream.writable.abort('Connection lost').catch(() => {});
+        file.target = null;
+        file.ranges = [];
+        file.received = 0;
+        file.hasher = new Sha256();
+        continue;
+      }
+      
+      try {
+        await stream.writable.close();
+      } catch (error) {
+        console.warn(`Failed to commit partial ${file.name}:`, error);
+        file.ranges = [];
+        file.received = 0;
+      }
+    }
+    
+    await this.saveTransferState();
   }
   
   // Write file chunk
@@ -80,43 +263,335 @@ export class StorageManager {
       throw new Error(`File ${fileId} not found in temp storage`);
     }
     
-    // Store chunk with offset info
-    file.chunks.push({
-      offset,
-      data: chunkData
-    });
+    const stream = await this.getStream(file);
+    if (stream) {
+      // Random-access write straight to disk; nothing is kept in memory
+      await stream.writable.write({ type: 'write', position: offset, data: chunkData });
+    } else if (!isRangeCovered(file.ranges, offset, offset + chunkData.byteLength)) {
+      // Retransmissions of bytes already held are not kept twice
+      file.chunks.push({
+        offset,
+        data: chunkData
+      });
+    }
     
-    file.received += chunkData.byteLength;
+    // In-order data is hashed on the fly; anything else is caught up at finalize.
+    // Downloads hash what they append themselves
+    if (stream?.target !== 'download' && offset === file.hasher.length) {
+      file.hasher.update(chunkData);
+    }
+    
+    file.ranges = addRange(file.ranges, offset, offset + chunkData.byteLength);
+    file.received = coveredBytes(file.ranges);
+  }
+  
+  // A download stuck behind a missing chunk reports the gap once, so it can be
+  // requested before the file ends
+  async takeStalledGap(fileId) {
+    const stream = await this.tempFiles.get(fileId)?.stream;
+    return stream?.target === 'download' ? stream.writable.takeStalledGap() : null;
+  }
+  
+  // Distinct bytes held for an unfinished file; duplicates are counted once
+  getReceivedBytes(fileId) {
+    return this.tempFiles.get(fileId)?.received ?? 0;
   }
   
-  // Finalize file (reassemble chunks and save)
-  async finalizeFile(fileId, fileInfo) {
+  // True once every byte of the file has been written
+  isFileComplete(fileId) {
+    const file = this.tempFiles.get(fileId);
+    return !!file && isRangeComplete(file.ranges, file.size);
+  }
+  
+  // Finalize file (close the stream or reassemble chunks, verify, then save)
+  async finalizeFile(fileId, fileInfo, expectedHash) {
     const file = this.tempFiles.get(fileId);
     if (!file) {
       throw new Error(`File ${fileId} not found`);
     }
     
-    // Sort chunks by offset
-    file.chunks.sort((a, b) => a.offset - b.offset);
-    
-    // Reassemble file
-    const totalSize = file.chunks.reduce((sum, chunk) => sum + chunk.data.byteLength, 0);
-    const fileData = new Uint8Array(totalSize);
-    let offset = 0;
+    let result;
+    const stream = await this.getStream(file);
     
-    for (const chunk of file.chunks) {
-      fileData.set(new Uint8Array(chunk.data), offset);
-      offset += chunk.data.byteLength;
+    if (stream?.target === 'download') {
+      // The browser discards an aborted download, so a damaged file never lands in Downloads
+      const sha256 = file.hasher.hexDigest();
+      if (expectedHash && sha256 !== expectedHash) {
+        await stream.writable.abort('Integrity check failed').catch(() => {});
+        this.tempFiles.delete(fileId);
+        throw new Error(`File integrity check failed for ${fileInfo.name}`);
+      }
+      this.fileHashes.set(fileId, sha256);
+      
+      await stream.writable.close();
+      console.log(`File downloaded: ${file.path}`);
+      result = { method: 'download', fileName: baseName(file.path) };
+    } else if (stream) {
+      await stream.writable.close();
+      
+      const sha256 = await this.completeHash(file, stream);
+      if (expectedHash && sha256 !== expectedHash) {
+        if (stream.target === 'fsaccess') {
+          await this.removeFromDirectory(file.path).catch(() => {});
+        }
+        this.tempFiles.delete(fileId);
+        throw new Error(`File integrity check failed for ${fileInfo.name}`);
+      }
+      this.fileHashes.set(fileId, sha256);
+      
+      if (stream.target === 'fsaccess') {
+        console.log(`File saved to directory: ${file.path}`);
+        result = { method: 'fsaccess', path: file.path };
+      } else {
+        // OPFS is only a staging area; hand the disk-backed File to the user
+        const stagedFile = await stream.fileHandle.getFile();
+        result = await this.deliverFile(file.path, stagedFile, fileInfo.type);
+      }
+    } else {
+      // Sort chunks by offset
+      file.chunks.sort((a, b) => a.offset - b.offset);
+      
+      const sha256 = await this.completeHash(file, null);
+      if (expectedHash && sha256 !== expectedHash) {
+        this.tempFiles.delete(fileId);
+        throw new Error(`File integrity check failed for ${fileInfo.name}`);
+      }
+      this.fileHashes.set(fileId, sha256);
+      
+      // Reassemble file; each chunk goes where it belongs, so overlapping
+      // retransmissions cannot make it longer
+      const fileData = new Uint8Array(file.size);
+      for (const chunk of file.chunks) {
+        if (chunk.offset >= file.size) continue;
+        const data = chunk.data instanceof Uint8Array ? chunk.data : new Uint8Array(chunk.data);
+        fileData.set(data.subarray(0, file.size - chunk.offset), chunk.offset);
+      }
+      
+      // Save file using best available method
+      result = await this.saveFile(file.path, fileData, fileInfo.type);
     }
     
-    // Save file using best available method
-    await this.saveFile(fileInfo.name, fileData, fileInfo.type);
+    result.sha256 = this.fileHashes.get(fileId);
     
     // Clean up temp storage
     this.tempFiles.delete(fileId);
+    this.completedFiles.add(fileId);
+    if (result.method === 'zip') {
+      this.archivedFiles.add(fileId);
+    }
+    
+    if (this.completedFiles.size === this.manifestFiles.length) {
+      await this.completeReceive();
+      await this.discardTransferState();
+    } else {
+      await this.saveTransferState();
+    }
+    
+    return result;
   }
   
-  // Save file using the best available method
+  // Feed the hasher whatever it missed (resumed or out-of-order data) and digest
+  async completeHash(file, stream) {
+    const hasher = file.hasher;
+    
+    if (hasher.length < file.size) {
+      if (stream) {
+        const onDisk = await stream.fileHandle.getFile();
+        return hashBlob(onDisk.slice(hasher.length), hasher);
+      }
+      
+      // Chunks are sorted by offset
+      for (const chunk of file.chunks) {
+        const data = chunk.data instanceof Uint8Array ? chunk.data : new Uint8Array(chunk.data);
+        const skip = hasher.length - chunk.offset;
+        if (skip < data.byteLength) {
+          hasher.update(skip > 0 ? data.subarray(skip) : data);
+        }
+      }
+    }
+    
+    return hasher.hexDigest();
+  }
+  
+  // Open (once) a writable stream for a file; null means buffer in memory
+  getStream(file) {
+    if (!file.stream) {
+      file.stream = this.openStream(file);
+    }
+    return file.stream;
+  }
+  
+  async openStream(file) {
+    // Resumed files continue in the partial file they were written to
+    if (file.target) {
+      const fileHandle = await this.getPartialFileHandle(file, file.target, { create: true });
+      const writable = await fileHandle.createWritable({ keepExistingData: file.ranges.length > 0 });
+      return { target: file.target, fileHandle, writable };
+    }
+    
+    // Method 1: write in place inside the chosen directory
+    if (this.directoryHandle) {
+      try {
+        const fileHandle = await this.getFileHandleAt(this.directoryHandle, file.path, { create: true });
+        file.target = 'fsaccess';
+        return { target: 'fsaccess', fileHandle, writable: await fileHandle.createWritable() };
+      } catch (error) {
+        if (error.name === 'NotAllowedError') {
+          this.directoryHandle = null;
+          await this.clearSavedDirectoryHandle();
+        }
+        console.warn(`Cannot stream ${file.name} to the chosen directory:`, error);
+      }
+    }
+    
+    // Method 2: stage in OPFS (createWritable is missing in some browsers)
+    if (this.opfsSupported) {
+      try {
+        const fileHandle = await this.getPartialFileHandle(file, 'opfs', { create: true });
+        if ('createWritable' in fileHandle) {
+          file.target = 'opfs';
+          return { target: 'opfs', fileHandle, writable: await fileHandle.createWritable() };
+        }
+      } catch (error) {
+        console.warn(`Cannot stage ${file.name} in OPFS:`, error);
+      }
+    }
+    
+    // Method 3: stream straight into a download. It cannot resume, but nothing
+    // piles up in memory. Files of an archive transfer go into the ZIP instead
+    if (!this.archive && isStreamDownloadSupported()) {
+      try {
+        const output = await createDownloadStream(baseName(file.path), {
+          mimeType: file.type || undefined,
+          size: file.size
+        });
+        file.target = 'download';
+        return { target: 'download', writable: new SequentialWriter(output, data => file.hasher.update(data)) };
+      } catch (error) {
+        console.warn(`Cannot stream ${file.name} as a download:`, error);
+      }
+    }
+    
+    return null;
+  }
+  
+  // Resolve a relative path below a directory, creating its folders when asked
+  async getFileHandleAt(rootHandle, path, options = {}) {
+    const { folders, name } = splitPath(path);
+    let directory = rootHandle;
+    for (const folder of folders) {
+      directory = await directory.getDirectoryHandle(folder, { create: !!options.create });
+    }
+    return directory.getFileHandle(name, options);
+  }
+  
+  async removeFromDirectory(path) {
+    const { folders, name } = splitPath(path);
+    let directory = this.directoryHandle;
+    for (const folder of folders) {
+      directory = await directory.getDirectoryHandle(folder);
+    }
+    await directory.removeEntry(name);
+  }
+  
+  // OPFS directory holding files while they are being received
+  async getIncomingDirectory() {
+    const opfsRoot = await navigator.storage.getDirectory();
+    const incoming = await opfsRoot.getDirectoryHandle('incoming', { create: true });
+    return incoming.getDirectoryHandle(this.transferId || 'session', { create: true });
+  }
+  
+  async getPartialFileHandle(file, target, options = {}) {
+    if (target === 'fsaccess') {
+      if (!this.directoryHandle) {
+        throw new Error('No directory chosen');
+      }
+      return this.getFileHandleAt(this.directoryHandle, file.path, options);
+    }
+    
+    // Staged files stay flat; the id keeps equal names in different folders apart
+    const incoming = await this.getIncomingDirectory();
+    return incoming.getFileHandle(`${file.id}-${baseName(file.path)}`, options);
+  }
+  
+  // A saved partial is only usable if its file still exists and holds the recorded bytes
+  async verifyPartialFile(fileInfo, partial) {
+    try {
+      const fileHandle = await this.getPartialFileHandle(fileInfo, partial.target);
+      const onDisk = await fileHandle.getFile();
+      const end = partial.ranges.reduce((max, range) => Math.max(max, range[1]), 0);
+      return onDisk.size >= end;
+    } catch (error) {
+      console.warn(`Cannot resume ${fileInfo.name}, starting it over:`, error);
+      return false;
+    }
+  }
+  
+  async clearIncomingDirectory() {
+    if (!this.opfsSupported) return;
+    
+    try {
+      const opfsRoot = await navigator.storage.getDirectory();
+      await opfsRoot.removeEntry('incoming', { recursive: true });
+    } catch (error) {
+      if (error.name !== 'NotFoundError') {
+        console.warn('Failed to clear staged files:', error);
+      }
+    }
+  }
+  
+  // Append a finished file to the archive download. A failed write (the user
+  // cancelled the download, say) drops the archive for the rest of the transfer
+  async addToArchive(filePath, fileData) {
+    const blob = fileData instanceof Blob ? fileData : new Blob([fileData]);
+    try {
+      await this.archive.addEntry(filePath, blob.size, blob.stream());
+    } catch (error) {
+      this.archive = null;
+      throw error;
+    }
+    
+    console.log(`File added to archive: ${filePath}`);
+    return { method: 'zip', path: filePath };
+  }
+  
+  // Finish the archive download, if any; files that never completed are left out
+  async completeReceive() {
+    const archive = this.archive;
+    if (!archive) return;
+    
+    this.archive = null;
+    try {
+      await archive.close();
+    } catch (error) {
+      console.warn('Failed to finish the archive:', error);
+    }
+  }
+  
+  // Hand a finished file to the user without copying it into memory
+  async deliverFile(filePath, file, mimeType) {
+    if (this.archive) {
+      try {
+        return await this.addToArchive(filePath, file);
+      } catch (error) {
+        console.warn(`Cannot add ${filePath} to the archive, saving it on its own:`, error);
+      }
+    }
+    
+    const fileName = baseName(filePath);
+    try {
+      if (this.webShareSupported && navigator.share) {
+        return await this.saveWithWebShare(fileName, file, mimeType);
+      }
+    } catch (error) {
+      console.warn(`Web Share failed for ${fileName}, downloading instead:`, error);
+    }
+    
+    return await this.saveWithDownload(fileName, file, mimeType);
+  }
+  
+  // Save file using the best available method. fileName may be a relative path;
+  // only the directory-based methods keep its folders
   async saveFile(fileName, fileData, mimeType = 'application/octet-stream') {
     try {
       // Method 1: File System Access API (preferred)
@@ -124,31 +599,36 @@ export class StorageManager {
         return await this.saveWithFSAccess(fileName, fileData, mimeType);
       }
       
-      // Method 2: OPFS (temp storage)
+      // Method 2: the transfer's streamed ZIP archive
+      if (this.archive) {
+        return await this.addToArchive(fileName, fileData);
+      }
+      
+      // Method 3: OPFS (temp storage)
       if (this.opfsSupported) {
         return await this.saveWithOPFS(fileName, fileData, mimeType);
       }
       
-      // Method 3: Web Share API (mobile)
+      // Method 4: Web Share API (mobile)
       if (this.webShareSupported && navigator.share) {
-        return await this.saveWithWebShare(fileName, fileData, mimeType);
+        return await this.saveWithWebShare(baseName(fileName), fileData, mimeType);
       }
       
-      // Method 4: Download fallback
-      return await this.saveWithDownload(fileName, fileData, mimeType);
+      // Method 5: Download fallback
+      return await this.saveWithDownload(baseName(fileName), fileData, mimeType);
       
     } catch (error) {
       console.error(`Failed to save file ${fileName}:`, error);
       
       // Always fallback to download
-      return await this.saveWithDownload(fileName, fileData, mimeType);
+      return await this.saveWithDownload(baseName(fileName), fileData, mimeType);
     }
   }
   
   // Save using File System Access API
   async saveWithFSAccess(fileName, fileData, mimeType) {
     try {
-      const fileHandle = await this.directoryHandle.getFileHandle(fileName, {
+      const fileHandle = await this.getFileHandleAt(this.directoryHandle, fileName, {
         create: true
       });
       
@@ -169,10 +649,21 @@ export class StorageManager {
     }
   }
   
-  // Save using Origin Private File System
+  // Save using Origin Private File System. Names are only known to be taken
+  // once the file is here, so the collision policy is applied now
   async saveWithOPFS(fileName, fileData, mimeType) {
     const opfsRoot = await navigator.storage.getDirectory();
-    const fileHandle = await opfsRoot.getFileHandle(fileName, { create: true });
+    if (await this.pathExists(opfsRoot, fileName)) {
+      const choice = await this.getCollisionChoice(fileName);
+      if (choice === 'skip') {
+        console.log(`Skipped ${fileName}, it already exists in OPFS`);
+        return { method: 'opfs', path: fileName, skipped: true };
+      }
+      if (choice === 'rename') {
+        fileName = await this.findFreePath(opfsRoot, fileName);
+      }
+    }
+    const fileHandle = await this.getFileHandleAt(opfsRoot, fileName, { create: true });
     const writable = await fileHandle.createWritable();
     
     await writable.write(fileData);
@@ -203,6 +694,20 @@ export class StorageManager {
   // Save using download fallback
   async saveWithDownload(fileName, fileData, mimeType) {
     const blob = new Blob([fileData], { type: mimeType });
+    
+    // Through the service worker the data is read as the browser writes it to
+    // disk; a blob URL would make the browser hold the whole file first
+    if (isStreamDownloadSupported()) {
+      try {
+        const output = await createDownloadStream(fileName, { mimeType, size: blob.size });
+        await blob.stream().pipeTo(output);
+        console.log(`File downloaded: ${fileName}`);
+        return { method: 'download', fileName };
+      } catch (error) {
+        console.warn(`Streaming download of ${fileName} failed, using a blob URL:`, error);
+      }
+    }
+    
     const url = URL.createObjectURL(blob);
     
     const a = document.createElement('a');
@@ -222,25 +727,30 @@ export class StorageManager {
   
   // Calculate file hash for verification
   async calculateFileHash(fileId) {
+    // Finalized files were hashed while they were received
+    if (this.fileHashes.has(fileId)) {
+      return this.fileHashes.get(fileId);
+    }
+    
     const file = this.tempFiles.get(fileId);
     if (!file) {
       throw new Error(`File ${fileId} not found`);
     }
     
-    // Reassemble file data
-    const totalSize = file.chunks.reduce((sum, chunk) => sum + chunk.data.byteLength, 0);
-    const fileData = new Uint8Array(totalSize);
-    let offset = 0;
+    // Streamed files are hashed from disk; downloads as they are written
+    const stream = await this.getStream(file);
+    if (stream?.target === 'download') {
+      return file.hasher.hexDigest();
+    }
+    if (stream) {
+      return hashBlob(await stream.fileHandle.getFile());
+    }
     
+    const hasher = new Sha256();
     for (const chunk of file.chunks.sort((a, b) => a.offset - b.offset)) {
-      fileData.set(new Uint8Array(chunk.data), offset);
-      offset += chunk.data.byteLength;
+      hasher.update(chunk.data);
     }
-    
-    // Calculate SHA-256 hash
-    const hashBuffer = await crypto.subtle.digest('SHA-256', fileData);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+    return hasher.hexDigest();
   }
   
   // Save directory handle to IndexedDB
@@ -252,10 +762,10 @@ export class StorageManager {
       const transaction = db.transaction(['handles'], 'readwrite');
       const store = transaction.objectStore('handles');
       
-      await store.put({
+      await requestToPromise(store.put({
         id: 'directory',
         handle: this.directoryHandle
-      });
+      }));
       
     } catch (error) {
       console.warn('Failed to save directory handle:', error);
@@ -269,7 +779,7 @@ export class StorageManager {
       const transaction = db.transaction(['handles'], 'readonly');
       const store = transaction.objectStore('handles');
       
-      const result = await store.get('directory');
+      const result = await requestToPromise(store.get('directory'));
       if (result && result.handle) {
         // Verify permission
         const permission = await result.handle.queryPermission({ mode: 'readwrite' });
@@ -294,16 +804,74 @@ export class StorageManager {
       const transaction = db.transaction(['handles'], 'readwrite');
       const store = transaction.objectStore('handles');
       
-      await store.delete('directory');
+      await requestToPromise(store.delete('directory'));
     } catch (error) {
       console.warn('Failed to clear directory handle:', error);
     }
   }
   
+  // Load the persisted progress of an unfinished transfer
+  async loadTransferState(transferId) {
+    try {
+      const db = await this.openDB();
+      const store = db.transaction(['transfers'], 'readonly').objectStore('transfers');
+      return (await requestToPromise(store.get(transferId))) || null;
+    } catch (error) {
+      console.warn('Failed to load transfer state:', error);
+      return null;
+    }
+  }
+  
+  // Persist which byte ranges of each file are safely on disk
+  async saveTransferState() {
+    if (!this.transferId) return;
+    
+    const partials = {};
+    for (const file of this.tempFiles.values()) {
+      // In-memory chunks and downloads do not survive a reload, so only disk-backed files count
+      if (file.target && file.target !== 'download' && file.ranges.length > 0) {
+        partials[file.id] = {
+          target: file.target,
+          // The name collision handling settled on
+          path: file.path,
+          ranges: file.ranges,
+          hash: file.hasher.exportState()
+        };
+      }
+    }
+    
+    try {
+      const db = await this.openDB();
+      const store = db.transaction(['transfers'], 'readwrite').objectStore('transfers');
+      await requestToPromise(store.put({
+        transferId: this.transferId,
+        partials,
+        // Archived files only live in a download that ends with this page
+        completed: Array.from(this.completedFiles).filter(id => !this.archivedFiles.has(id)),
+        updatedAt: Date.now()
+      }));
+    } catch (error) {
+      console.warn('Failed to save transfer state:', error);
+    }
+  }
+  
+  // Forget all resumable transfers (only one is kept at a time)
+  async discardTransferState() {
+    this.transferId = null;
+    
+    try {
+      const db = await this.openDB();
+      const store = db.transaction(['transfers'], 'readwrite').objectStore('transfers');
+      await requestToPromise(store.clear());
+    } catch (error) {
+      console.warn('Failed to clear transfer state:', error);
+    }
+  }
+  
   // Open IndexedDB
   async openDB() {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open('BeamShare', 1);
+      const request = indexedDB.open('BeamShare', 2);
       
       request.onerror = () => reject(request.error);
       request.onsuccess = () => resolve(request.result);
@@ -313,6 +881,9 @@ export class StorageManager {
         if (!db.objectStoreNames.contains('handles')) {
           db.createObjectStore('handles', { keyPath: 'id' });
         }
+        if (!db.objectStoreNames.contains('transfers')) {
+          db.createObjectStore('transfers', { keyPath: 'transferId' });
+        }
       };
     });
   }
@@ -326,4 +897,12 @@ export class StorageManager {
       tempFiles: this.tempFiles.size
     };
   }
-}
\ No newline at end of file
+}
+
+// IDBRequest is event based; wrap it so it can be awaited
+function requestToPromise(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { StorageManager } from "./manager.js";
+import { Sha256 } from "../lib/sha256";
+
+// Only the methods findFreePath relies on, so no browser storage is needed
+function withExisting(paths: string[]) {
+  const existing = new Set(paths);
+  return Object.assign(Object.create(StorageManager.prototype), {
+    pathExists: async (_root: unknown, path: string) => existing.has(path)
+  }) as StorageManager;
+}
+
+describe("StorageManager.findFreePath", () => {
+  it("picks the first number free on disk", async () => {
+    const storage = withExisting(["docs/report (1).pdf", "docs/report (2).pdf"]);
+
+    expect(await storage.findFreePath({}, "docs/report.pdf")).toBe("docs/report (3).pdf");
+  });
+
+  it("skips names claimed earlier in the same transfer", async () => {
+    const storage = withExisting([]);
+    const claimed = new Set(["photo (1).jpg", "photo (2).jpg"]);
+
+    expect(await storage.findFreePath(null, "Photo.jpg", claimed)).toBe("Photo (3).jpg");
+  });
+
+  it("stays in the folder of the original path", async () => {
+    const storage = withExisting(["a/b/c (1)"]);
+
+    expect(await storage.findFreePath({}, "a/b/c")).toBe("a/b/c (2)");
+  });
+});
+
+// A receiver with no folder and no streaming, which keeps chunks in memory
+function inMemory(size: number) {
+  const saved: Uint8Array[] = [];
+  const storage = Object.assign(Object.create(StorageManager.prototype), {
+    tempFiles: new Map([[0, { id: 0, name: "a.bin", path: "a.bin", size, chunks: [], ranges: [], received: 0, hasher: new Sha256(), stream: null }]]),
+    manifestFiles: [{ id: 0 }, { id: 1 }],
+    completedFiles: new Set(),
+    archivedFiles: new Set(),
+    fileHashes: new Map(),
+    getStream: async () => null,
+    saveTransferState: async () => {},
+    saveFile: async (_name: string, data: Uint8Array) => {
+      saved.push(data);
+      return { method: "download" };
+    }
+  }) as StorageManager;
+  return { storage, saved };
+}
+
+describe("StorageManager in-memory receive", () => {
+  it("saves the file at its real size despite duplicate and overlapping chunks", async () => {
+    const { storage, saved } = inMemory(6);
+    const expected = new Uint8Array([1, 2, 3, 4, 5, 6]);
+
+    await storage.writeChunk(0, 2, expected.slice(2, 4));
+    await storage.writeChunk(0, 0, expected.slice(0, 4));
+    // Exact duplicate and a retransmission overlapping held bytes
+    await storage.writeChunk(0, 0, expected.slice(0, 4));
+    await storage.writeChunk(0, 3, expected.slice(3, 6));
+
+    expect(storage.getReceivedBytes(0)).toBe(6);
+    expect(storage.isFileComplete(0)).toBe(true);
+
+    const hash = new Sha256().update(expected).hexDigest();
+    const result = await storage.finalizeFile(0, { id: 0, name: "a.bin", path: "a.bin", size: 6, type: "" }, hash);
+
+    expect(result.sha256).toBe(hash);
+    expect(Array.from(saved[0])).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+});
@@ -1,9 +1,9 @@
 // Checksum utilities for file integrity verification
+import { Sha256, hashBlob } from '../lib/sha256.ts';
+
+// Streams the file through the hasher instead of loading it whole
 export async function calculateSHA256(file) {
-  const arrayBuffer = await file.arrayBuffer();
-  const hashBuffer = await crypto.subtle.digest('SHA-256', arrayBuffer);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+  return hashBlob(file);
 }
 
 export async function calculateSHA256FromBuffer(buffer) {
@@ -14,7 +14,7 @@ export async function calculateSHA256FromBuffer(buffer) {
 
 export async function streamingSHA256(readableStream) {
   const reader = readableStream.getReader();
-  const hasher = new SHA256Hasher();
+  const hasher = new Sha256();
   
   try {
     while (true) {
@@ -24,36 +24,8 @@ export async function streamingSHA256(readableStream) {
       hasher.update(value);
     }
     
-    return hasher.finalize();
+    return hasher.hexDigest();
   } finally {
     reader.releaseLock();
   }
-}
-
-class SHA256Hasher {
-  constructor() {
-    this.chunks = [];
-    this.totalLength = 0;
-  }
-  
-  update(chunk) {
-    this.chunks.push(new Uint8Array(chunk));
-    this.totalLength += chunk.byteLength;
-  }
-  
-  async finalize() {
-    // Combine all chunks
-    const combined = new Uint8Array(this.totalLength);
-    let offset = 0;
-    
-    for (const chunk of this.chunks) {
-      combined.set(chunk, offset);
-      offset += chunk.length;
-    }
-    
-    // Calculate hash
-    const hashBuffer = await crypto.subtle.digest('SHA-256', combined);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-  }
 }
\ No newline at end of file
@@ -1,12 +1,12 @@
 // File Transfer Management
-import { calculateSHA256 } from '../utils/checksum.js';
+import { Sha256 } from '../lib/sha256.ts';
 import { formatBytes, formatTime } from '../utils/bytes.js';
+import { getFlowController } from '../lib/flow-control.ts';
 
 export class FileTransferManager {
   constructor() {
     // Dynamic chunk size based on connection quality
     this.chunkSize = this.getOptimalChunkSize();
-    this.maxBufferedAmount = 32 * 1024 * 1024; // 32MB buffer for better throughput
     this.activeTransfers = new Map();
     this.listeners = {
       progress: [],
@@ -77,6 +77,8 @@ export class FileTransferManager {
         files: files.map((file, index) => ({
           id: index,
           name: file.name,
+          // Folder structure for files picked with "Choose Folder"
+          path: file.webkitRelativePath || file.name,
           size: file.size,
           type: file.type,
           lastModified: file.lastModified
@@ -116,8 +118,8 @@ export class FileTransferManager {
     this.activeTransfers.set(fileId, transfer);
     
     try {
-      // Calculate file hash
-      transfer.hash = await calculateSHA256(file);
+      // Hashed while sending; the digest goes out with file-end
+      const hasher = new Sha256();
       
       // Send file header
       const header = {
@@ -125,8 +127,7 @@ export class FileTransferManager {
         fileId,
         name: file.name,
         size: file.size,
-        type: file.type,
-        hash: transfer.hash
+        type: file.type
       };
       
       dataChannel.send(JSON.stringify(header));
@@ -153,6 +154,7 @@ export class FileTransferManager {
         
         dataChannel.send(JSON.stringify(chunkHeader));
         dataChannel.send(value);
+        hasher.update(value);
         
         offset += value.length;
         transfer.sent = offset;
@@ -162,6 +164,7 @@ export class FileTransferManager {
       }
       
       // Send file end marker
+      transfer.hash = hasher.hexDigest();
       dataChannel.send(JSON.stringify({
         type: 'file-end',
         fileId,
@@ -174,11 +177,9 @@ export class FileTransferManager {
     }
   }
   
-  // Wait for data channel buffer to clear
+  // Wait for data channel buffer to drain below its low watermark
   async waitForBuffer(dataChannel) {
-    while (dataChannel.bufferedAmount > this.maxBufferedAmount) {
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
+    await getFlowController(dataChannel).ready();
   }
   
   // Update transfer progress
@@ -247,7 +248,7 @@ export class FileTransferManager {
             break;
             
           case 'file-end':
-            await this.completeFileReceive(message.fileId, receivedFiles, storageManager);
+            await this.completeFileReceive(message.fileId, receivedFiles, storageManager, message.hash);
             break;
             
           case 'complete':
@@ -298,20 +299,12 @@ export class FileTransferManager {
   }
   
   // Complete file receive and verify
-  async completeFileReceive(fileId, receivedFiles, storageManager) {
+  async completeFileReceive(fileId, receivedFiles, storageManager, expectedHash) {
     const file = receivedFiles.get(fileId);
     if (!file) return;
     
-    // Finalize file in storage
-    await storageManager.finalizeFile(fileId, file);
-    
-    // Verify integrity if hash provided
-    if (file.hash) {
-      const calculatedHash = await storageManager.calculateFileHash(fileId);
-      if (calculatedHash !== file.hash) {
-        throw new Error(`File integrity check failed for ${file.name}`);
-      }
-    }
+    // Finalize file in storage; it verifies the hash computed during receive
+    await storageManager.finalizeFile(fileId, file, expectedHash);
     
     console.log(`File received successfully: ${file.name}`);
   }
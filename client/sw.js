@@ -16,6 +16,69 @@ const STATIC_ASSETS = [
   '/manifest.webmanifest'
 ];
 
+// Streamed downloads (see client/src/lib/stream-download.ts): the page registers
+// a download with a MessagePort, then opens DOWNLOAD_ROUTE + id to start it
+const DOWNLOAD_ROUTE = '/__beamshare-download/';
+// Chunks requested ahead of the browser's reads
+const DOWNLOAD_READ_AHEAD = 4;
+const downloads = new Map();
+
+function createDownloadResponse(id) {
+  const download = downloads.get(id);
+  if (!download) {
+    return new Response('Download not found', { status: 404 });
+  }
+  // Each registration serves exactly one request
+  downloads.delete(id);
+  
+  const { port, fileName, mimeType, size } = download;
+  let answerPull = null;
+  
+  const stream = new ReadableStream({
+    start(controller) {
+      port.onmessage = (event) => {
+        const message = event.data;
+        switch (message.type) {
+          case 'chunk':
+            controller.enqueue(new Uint8Array(message.chunk));
+            break;
+          case 'end':
+            controller.close();
+            break;
+          case 'abort':
+            controller.error(new Error(message.reason || 'Download aborted'));
+            break;
+        }
+        if (answerPull) {
+          answerPull();
+          answerPull = null;
+        }
+      };
+    },
+    // One chunk per pull keeps the page from running ahead of the disk
+    pull() {
+      return new Promise((resolve) => {
+        answerPull = resolve;
+        port.postMessage({ type: 'pull' });
+      });
+    },
+    cancel() {
+      port.postMessage({ type: 'cancel' });
+    }
+  }, new CountQueuingStrategy({ highWaterMark: DOWNLOAD_READ_AHEAD }));
+  
+  const headers = {
+    'Content-Type': mimeType || 'application/octet-stream',
+    'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+    'X-Content-Type-Options': 'nosniff'
+  };
+  if (typeof size === 'number') {
+    headers['Content-Length'] = String(size);
+  }
+  
+  return new Response(stream, { headers });
+}
+
 // Install event - cache static assets
 self.addEventListener('install', (event) => {
   console.log('[SW] Installing service worker');
@@ -67,6 +130,11 @@ self.addEventListener('fetch', (event) => {
     return;
   }
   
+  if (url.pathname.startsWith(DOWNLOAD_ROUTE)) {
+    event.respondWith(createDownloadResponse(url.pathname.slice(DOWNLOAD_ROUTE.length)));
+    return;
+  }
+  
   // Don't cache WebRTC related requests or data
   if (url.pathname.includes('webrtc') || 
       url.pathname.includes('transfer') ||
@@ -131,6 +199,15 @@ self.addEventListener('message', (event) => {
       });
       break;
       
+    case 'REGISTER_DOWNLOAD':
+      downloads.set(data.id, { ...data, port: event.ports[0] });
+      event.ports[0].postMessage({ type: 'ready' });
+      break;
+      
+    // Sent while a download streams so the worker is not stopped as idle
+    case 'KEEP_ALIVE':
+      break;
+      
     default:
       console.log('[SW] Unknown message type:', type);
   }
@@ -179,11 +256,19 @@ self.addEventListener('notificationclick', (event) => {
   );
 });
 
-// Background sync (future feature for resumable transfers)
+// Background sync - the network is back after a transfer dropped
 self.addEventListener('sync', (event) => {
   if (event.tag === 'resume-transfer') {
     console.log('[SW] Background sync: resume-transfer');
-    // Implementation would go here
+    
+    // Pages hold the transfer state; ask them to pair again and resume
+    event.waitUntil(
+      clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clientList) => {
+        for (let client of clientList) {
+          client.postMessage({ type: 'RESUME_TRANSFER' });
+        }
+      })
+    );
   }
 });
 
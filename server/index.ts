@@ -3,6 +3,10 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
+// Deployments sit behind one reverse proxy; without this every client shares the
+// proxy's address and the per-IP rate limits. TRUST_PROXY=false when serving directly.
+const trustProxy = process.env.TRUST_PROXY ?? "1";
+app.set("trust proxy", trustProxy === "false" ? false : /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -0,0 +1,41 @@
+import { type Request, Response, NextFunction, type RequestHandler } from "express";
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  message?: string;
+}
+
+// Fixed-window limiter keyed by client IP; good enough for a single instance
+export function rateLimit({
+  windowMs,
+  max,
+  message = "Too many requests, please try again later",
+}: RateLimitOptions): RequestHandler {
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const key = req.ip || req.socket.remoteAddress || "unknown";
+
+    let entry = hits.get(key);
+    if (!entry || entry.resetAt <= now) {
+      // Sweep stale windows so the map cannot grow without bound
+      if (hits.size > 10000) {
+        Array.from(hits.entries()).forEach(([ip, hit]) => {
+          if (hit.resetAt <= now) hits.delete(ip);
+        });
+      }
+      entry = { count: 0, resetAt: now + windowMs };
+      hits.set(key, entry);
+    }
+
+    entry.count++;
+    if (entry.count > max) {
+      res.setHeader("Retry-After", Math.ceil((entry.resetAt - now) / 1000));
+      return res.status(429).json({ message });
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "./routes";
+
+let server: Server | undefined;
+
+// A fresh app per test, so every test starts with empty rate limit windows
+async function start() {
+  const app = express();
+  app.set("trust proxy", 1);
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server!.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return (path: string, body?: unknown, clientIp = "203.0.113.1") =>
+    fetch(`http://127.0.0.1:${port}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Forwarded-For": clientIp },
+      body: JSON.stringify(body ?? {}),
+    });
+}
+
+afterEach(async () => {
+  await new Promise(resolve => server?.close(resolve));
+  server = undefined;
+});
+
+describe("/api/pair", () => {
+  it("stores a payload under a short code", async () => {
+    const post = await start();
+    const response = await post("/api/pair", { payload: "offer" });
+
+    expect(response.status).toBe(201);
+    const { code, expiresAt } = await response.json();
+    expect(code).toMatch(/^[A-Z]{3}-[A-Z]{3}-[0-9]{3}$/);
+    expect(new Date(expiresAt).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("rejects a missing or oversized payload", async () => {
+    const post = await start();
+
+    expect((await post("/api/pair", {})).status).toBe(400);
+    expect((await post("/api/pair", { payload: "" })).status).toBe(400);
+    expect((await post("/api/pair", { payload: "x".repeat(16 * 1024 + 1) })).status).toBe(400);
+  });
+
+  it("hands a payload out once", async () => {
+    const post = await start();
+    const { code } = await (await post("/api/pair", { payload: "offer" })).json();
+
+    // Typed by hand: lowercase, no dashes
+    const first = await post(`/api/pair/${code.toLowerCase().replace(/-/g, "")}/claim`);
+    expect(first.status).toBe(200);
+    expect(await first.json()).toEqual({ payload: "offer" });
+
+    expect((await post(`/api/pair/${code}/claim`)).status).toBe(404);
+  });
+
+  it("rejects malformed and unknown codes", async () => {
+    const post = await start();
+
+    expect((await post("/api/pair/not-a-code/claim")).status).toBe(400);
+    expect((await post("/api/pair/ZZZ-ZZZ-999/claim")).status).toBe(404);
+  });
+
+  it("limits claims per client", async () => {
+    const post = await start();
+
+    for (let attempt = 0; attempt < 10; attempt++) {
+      expect((await post("/api/pair/ZZZ-ZZZ-999/claim")).status).toBe(404);
+    }
+    const limited = await post("/api/pair/ZZZ-ZZZ-999/claim");
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get("Retry-After"))).toBeGreaterThan(0);
+
+    // Another client behind the same proxy has its own window
+    expect((await post("/api/pair/ZZZ-ZZZ-999/claim", undefined, "198.51.100.7")).status).toBe(404);
+  });
+});
@@ -1,6 +1,14 @@
-import type { Express } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import { fromZodError } from "zod-validation-error";
 import { storage } from "./storage";
+import { setupSignaling } from "./signaling";
+import { rateLimit } from "./rate-limit";
+import { insertPairingCodeSchema } from "@shared/schema";
+import { normalizeShortCode, SHORT_CODE_PATTERN } from "@shared/pairing";
+
+// Matches the window parsePairingCode accepts on the client
+const PAIRING_CODE_TTL = 10 * 60 * 1000;
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // put application routes here
@@ -9,7 +17,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // use storage to perform CRUD operations on the storage interface
   // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
 
+  // Store a compressed pairing payload under a short, typable code
+  app.post(
+    "/api/pair",
+    rateLimit({ windowMs: 60 * 1000, max: 20 }),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const result = insertPairingCodeSchema.safeParse(req.body);
+        if (!result.success) {
+          return res.status(400).json({ message: fromZodError(result.error).message });
+        }
+
+        const pairing = await storage.createPairingCode(result.data, PAIRING_CODE_TTL);
+        res.status(201).json({ code: pairing.code, expiresAt: pairing.expiresAt });
+      } catch (error) {
+        // Express 4 does not catch rejected promises from async handlers
+        next(error);
+      }
+    },
+  );
+
+  // Tighter limit on claims so short codes cannot be brute-forced
+  app.post(
+    "/api/pair/:code/claim",
+    rateLimit({
+      windowMs: 60 * 1000,
+      max: 10,
+      message: "Too many attempts, please wait a minute and try again",
+    }),
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const code = normalizeShortCode(req.params.code);
+        if (!SHORT_CODE_PATTERN.test(code)) {
+          return res.status(400).json({ message: "Malformed pairing code" });
+        }
+
+        const pairing = await storage.claimPairingCode(code);
+        if (!pairing) {
+          return res.status(404).json({ message: "Pairing code not found or expired" });
+        }
+
+        res.json({ payload: pairing.payload });
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
   const httpServer = createServer(app);
 
+  // WebSocket rooms relaying offer/answer/ICE between peers on the same server
+  setupSignaling(httpServer);
+
   return httpServer;
 }
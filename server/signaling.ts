@@ -0,0 +1,129 @@
+import { WebSocketServer, WebSocket } from "ws";
+import { type Server } from "http";
+import {
+  SIGNALING_PATH,
+  clientSignalingMessageSchema,
+  type ServerSignalingMessage,
+} from "@shared/signaling";
+import { log } from "./vite";
+
+// Rooms pair exactly two peers: the sender and the receiver
+const MAX_PEERS_PER_ROOM = 2;
+const HEARTBEAT_INTERVAL = 30 * 1000;
+
+interface Peer extends WebSocket {
+  room?: string;
+  isAlive?: boolean;
+}
+
+export function setupSignaling(httpServer: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+  const rooms = new Map<string, Set<Peer>>();
+
+  // Only claim upgrades on our path so the Vite HMR socket keeps working
+  httpServer.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== SIGNALING_PATH) return;
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit("connection", ws, req);
+    });
+  });
+
+  const send = (peer: Peer, message: ServerSignalingMessage) => {
+    if (peer.readyState === WebSocket.OPEN) {
+      peer.send(JSON.stringify(message));
+    }
+  };
+
+  const broadcast = (sender: Peer, message: ServerSignalingMessage) => {
+    const peers = sender.room ? rooms.get(sender.room) : undefined;
+    peers?.forEach((peer) => {
+      if (peer !== sender) send(peer, message);
+    });
+  };
+
+  const leaveRoom = (peer: Peer) => {
+    if (!peer.room) return;
+
+    const peers = rooms.get(peer.room);
+    broadcast(peer, { type: "peer-left" });
+    peers?.delete(peer);
+    if (peers && peers.size === 0) {
+      rooms.delete(peer.room);
+    }
+    peer.room = undefined;
+  };
+
+  wss.on("connection", (peer: Peer) => {
+    peer.isAlive = true;
+    peer.on("pong", () => {
+      peer.isAlive = true;
+    });
+
+    peer.on("message", (raw) => {
+      let message;
+      try {
+        message = clientSignalingMessageSchema.parse(JSON.parse(raw.toString()));
+      } catch {
+        send(peer, { type: "error", message: "Invalid signaling message" });
+        return;
+      }
+
+      switch (message.type) {
+        case "join": {
+          leaveRoom(peer);
+
+          const peers = rooms.get(message.room) ?? new Set<Peer>();
+          if (peers.size >= MAX_PEERS_PER_ROOM) {
+            send(peer, { type: "error", message: "Room is full" });
+            return;
+          }
+
+          peers.add(peer);
+          rooms.set(message.room, peers);
+          peer.room = message.room;
+
+          send(peer, { type: "joined", room: message.room, peers: peers.size - 1 });
+          broadcast(peer, { type: "peer-joined" });
+          break;
+        }
+
+        case "signal":
+          if (!peer.room) {
+            send(peer, { type: "error", message: "Join a room before signaling" });
+            return;
+          }
+          broadcast(peer, { type: "signal", data: message.data });
+          break;
+
+        case "leave":
+          leaveRoom(peer);
+          break;
+      }
+    });
+
+    peer.on("close", () => leaveRoom(peer));
+  });
+
+  // Drop peers whose connection died without a close frame
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((client) => {
+      const peer = client as Peer;
+      if (!peer.isAlive) {
+        leaveRoom(peer);
+        peer.terminate();
+        return;
+      }
+      peer.isAlive = false;
+      peer.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+
+  wss.on("close", () => clearInterval(heartbeat));
+  httpServer.on("close", () => wss.close());
+
+  log(`signaling server ready on ${SIGNALING_PATH}`, "signaling");
+
+  return wss;
+}
@@ -1,5 +1,10 @@
-import { type User, type InsertUser } from "@shared/schema";
-import { randomUUID } from "crypto";
+import {
+  type User,
+  type InsertUser,
+  type PairingCode,
+  type InsertPairingCode,
+} from "@shared/schema";
+import { randomUUID, randomInt } from "crypto";
 
 // modify the interface with any CRUD methods
 // you might need
@@ -8,13 +13,27 @@ export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  createPairingCode(pairing: InsertPairingCode, ttlMs: number): Promise<PairingCode>;
+  // Codes are one-time: claiming removes them, expired codes are never returned
+  claimPairingCode(code: string): Promise<PairingCode | undefined>;
+}
+
+const CODE_LETTERS = "ABCDEFGHJKLMNPQRSTUVWXYZ";
+
+export function generateShortCode(): string {
+  const letters = () =>
+    Array.from({ length: 3 }, () => CODE_LETTERS[randomInt(CODE_LETTERS.length)]).join("");
+  const digits = String(randomInt(1000)).padStart(3, "0");
+  return `${letters()}-${letters()}-${digits}`;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private pairingCodes: Map<string, PairingCode>;
 
   constructor() {
     this.users = new Map();
+    this.pairingCodes = new Map();
   }
 
   async getUser(id: string): Promise<User | undefined> {
@@ -33,6 +52,45 @@ export class MemStorage implements IStorage {
     this.users.set(id, user);
     return user;
   }
+
+  async createPairingCode(
+    insertPairing: InsertPairingCode,
+    ttlMs: number,
+  ): Promise<PairingCode> {
+    this.purgeExpiredPairingCodes();
+
+    let code = generateShortCode();
+    while (this.pairingCodes.has(code)) {
+      code = generateShortCode();
+    }
+
+    const createdAt = new Date();
+    const pairing: PairingCode = {
+      ...insertPairing,
+      code,
+      createdAt,
+      expiresAt: new Date(createdAt.getTime() + ttlMs),
+    };
+    this.pairingCodes.set(code, pairing);
+    return pairing;
+  }
+
+  async claimPairingCode(code: string): Promise<PairingCode | undefined> {
+    const pairing = this.pairingCodes.get(code);
+    if (!pairing) return undefined;
+
+    this.pairingCodes.delete(code);
+    return pairing.expiresAt.getTime() > Date.now() ? pairing : undefined;
+  }
+
+  private purgeExpiredPairingCodes() {
+    const now = Date.now();
+    Array.from(this.pairingCodes.values()).forEach((pairing) => {
+      if (pairing.expiresAt.getTime() <= now) {
+        this.pairingCodes.delete(pairing.code);
+      }
+    });
+  }
 }
 
 export const storage = new MemStorage();
@@ -0,0 +1,10 @@
+// Short, typable codes like "ABC-DEF-123" that stand in for a full pairing payload
+export const SHORT_CODE_PATTERN = /^[A-Z]{3}-[A-Z]{3}-[0-9]{3}$/;
+export const MAX_PAIRING_PAYLOAD_LENGTH = 16 * 1024;
+
+// Accept lowercase and missing dashes when a code is typed by hand
+export function normalizeShortCode(code: string): string {
+  const compact = code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  if (compact.length !== 9) return code.trim().toUpperCase();
+  return `${compact.slice(0, 3)}-${compact.slice(3, 6)}-${compact.slice(6)}`;
+}
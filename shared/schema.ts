@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { MAX_PAIRING_PAYLOAD_LENGTH } from "./pairing";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -16,3 +17,20 @@ export const insertUserSchema = createInsertSchema(users).pick({
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+
+// One-time short codes that stand in for a compressed SDP pairing payload
+export const pairingCodes = pgTable("pairing_codes", {
+  code: varchar("code", { length: 11 }).primaryKey(),
+  payload: text("payload").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+export const insertPairingCodeSchema = createInsertSchema(pairingCodes, {
+  payload: (schema) => schema.min(1).max(MAX_PAIRING_PAYLOAD_LENGTH),
+}).pick({
+  payload: true,
+});
+
+export type InsertPairingCode = z.infer<typeof insertPairingCodeSchema>;
+export type PairingCode = typeof pairingCodes.$inferSelect;
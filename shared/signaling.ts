@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+export const SIGNALING_PATH = "/ws/signal";
+
+// Room codes are short enough to read out loud across a table
+export const ROOM_CODE_PATTERN = /^[A-Z0-9]{6}$/;
+
+export const signalDataSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("offer"), sdp: z.string() }),
+  z.object({ kind: z.literal("answer"), sdp: z.string() }),
+  z.object({
+    kind: z.literal("candidate"),
+    candidate: z.object({
+      candidate: z.string(),
+      sdpMid: z.string().nullable().optional(),
+      sdpMLineIndex: z.number().nullable().optional(),
+      usernameFragment: z.string().nullable().optional(),
+    }),
+  }),
+]);
+
+export const clientSignalingMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("join"), room: z.string().regex(ROOM_CODE_PATTERN) }),
+  z.object({ type: z.literal("signal"), data: signalDataSchema }),
+  z.object({ type: z.literal("leave") }),
+]);
+
+export type SignalData = z.infer<typeof signalDataSchema>;
+export type ClientSignalingMessage = z.infer<typeof clientSignalingMessageSchema>;
+
+export type ServerSignalingMessage =
+  | { type: "joined"; room: string; peers: number }
+  | { type: "peer-joined" }
+  | { type: "peer-left" }
+  | { type: "signal"; data: SignalData }
+  | { type: "error"; message: string };